@@ -1,18 +1,33 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AgentMode, AgentState, FileContext, Message, ViewMode } from './types';
-import { sendMessageToGemini } from './services/geminiService';
+import { AgentMode, AgentState, DebugIteration, FileContext, FilePatch, Message, RetryTarget, ReviewFinding, ViewMode, WorkspaceMeta } from './types';
+import { sendMessageToGemini, streamMessageFromGemini, generatePullRequestText, reviewPullRequestDiff, countPromptTokens } from './services/geminiService';
 import { generateDependencyGraph } from './services/dependencyService';
-import { fetchGithubRepo } from './services/githubService';
+import { fetchGithubTree, fetchGithubFiles, fetchGithubIssue, parseGithubIssueUrl, fetchPullRequestDiff, postPullRequestReview, getGithubToken, repoFileKey, GithubRepoTree, GithubTreeEntry, ImportProgress } from './services/githubService';
+import { selectRelevantFiles } from './services/contextService';
+import { applyHunks, annotateUnifiedDiff, numberLines } from './services/patchService';
+import { EMPTY_HISTORY, WorkspaceHistory, FileRevision, recordRevision, undoRevision, redoRevision, diffWorkspaces, getFileTimeline, fileFromChange } from './services/revisionService';
+import { estimateRequestTokens, formatTokens, WINDOW_WARNING_RATIO } from './services/tokenService';
+import { initWorkspaces, loadWorkspace, saveMessages, saveFiles, saveRevisions, clearWorkspace, saveWorkspaceMeta, setActiveWorkspaceId as persistActiveWorkspaceId, duplicateWorkspace, createWorkspace, deleteWorkspace, getStorageUsage, isQuotaExceeded, formatBytes, StorageUsage, DEFAULT_WORKSPACE_ID } from './services/storageService';
+import { createSessionBundle, parseSessionBundle, buildTranscript, toFileName, downloadText } from './services/sessionExportService';
+import { prepareUpload, UploadPlan } from './services/uploadService';
+import { getModeModels, saveModeModels, getModelInfo, clampBudget } from './services/modelService';
+import { getProviderSettings, saveProviderSettings, ProviderSettings } from './services/llmProvider';
+import { getVaultStatus, VaultStatus } from './services/credentialService';
+import { runDebugPipeline, DEFAULT_DEBUG_PIPELINE, MAX_ITERATION_OPTIONS, DebugPipelineConfig } from './services/debugPipelineService';
+import { buildChatHistory, ChatHistory, DEFAULT_HISTORY_TOKEN_BUDGET, HISTORY_BUDGET_OPTIONS, HistoryItem } from './services/historyService';
+import { AuthError, InvalidInputError, toAgentError, toMessageError } from './services/errorService';
 import { FileTree } from './components/FileTree';
 import { MessageBubble } from './components/MessageBubble';
 import { DependencyGraph } from './components/DependencyGraph';
-import { Send, Zap, BrainCircuit, MessageSquare, Network, Cpu, Command, Bug, PlayCircle, Trash2, Brain, Layout } from 'lucide-react';
-
-// Storage keys for persistence
-const STORAGE_KEYS = {
-  MESSAGES: 'codeagent_messages',
-  FILES: 'codeagent_files'
-};
+import { RevisionTimeline } from './components/RevisionTimeline';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { GithubImportPicker } from './components/GithubImportPicker';
+import { GithubModal } from './components/GithubModal';
+import { CodeEditor, SelectionAction, languageFor } from './components/CodeEditor';
+import { UploadSummary } from './components/UploadSummary';
+import { ModelSettings } from './components/ModelSettings';
+import { CredentialSettings } from './components/CredentialSettings';
+import { Send, Zap, BrainCircuit, MessageSquare, Network, Code2, Cpu, Command, Bug, PlayCircle, Trash2, Brain, Layout, Square, History, Undo2, Redo2, HardDrive, Github, SlidersHorizontal, KeyRound } from 'lucide-react';
 
 const DEFAULT_MESSAGE: Message = {
   id: 'welcome',
@@ -21,66 +36,151 @@ const DEFAULT_MESSAGE: Message = {
   timestamp: Date.now()
 };
 
+// Keeps the tail of long chats for PR descriptions, which is where the final changes were discussed
+const MAX_PR_TRANSCRIPT_CHARS = 30000;
+
+const DEFAULT_WORKSPACE_SETTINGS = { agentMode: AgentMode.ARCHITECT, thinkingBudget: 4096 };
+
 export default function App() {
-  // Initialize messages from localStorage or default
-  const [messages, setMessages] = useState<Message[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.MESSAGES);
-      if (saved) {
-        return JSON.parse(saved);
-      }
-    } catch (e) {
-      console.warn('Failed to restore messages from storage:', e);
-    }
-    return [DEFAULT_MESSAGE];
-  });
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>(DEFAULT_WORKSPACE_ID);
 
-  // Initialize files from localStorage or empty
-  const [files, setFiles] = useState<FileContext[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.FILES);
-      if (saved) {
-        return JSON.parse(saved);
-      }
-    } catch (e) {
-      console.warn('Failed to restore files from storage:', e);
-    }
-    return [];
-  });
+  // Restored asynchronously from IndexedDB once mounted
+  const [messages, setMessages] = useState<Message[]>([DEFAULT_MESSAGE]);
+  const [files, setFiles] = useState<FileContext[]>([]);
+  const [workspaceHistory, setWorkspaceHistory] = useState<WorkspaceHistory>(EMPTY_HISTORY);
+  const [isHydrated, setIsHydrated] = useState(false);
 
   const [input, setInput] = useState('');
   const [agentMode, setAgentMode] = useState<AgentMode>(AgentMode.ARCHITECT);
   const [thinkingBudget, setThinkingBudget] = useState<number>(4096);
+  const [historyTokenBudget, setHistoryTokenBudget] = useState<number>(DEFAULT_HISTORY_TOKEN_BUDGET);
+  const [debugPipeline, setDebugPipeline] = useState<DebugPipelineConfig>(DEFAULT_DEBUG_PIPELINE);
+  const [modeModels, setModeModels] = useState<Record<AgentMode, string>>(getModeModels);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+  // Stored keys need the passphrase after every reload, so ask for it up front
+  const [isCredentialSettingsOpen, setIsCredentialSettingsOpen] = useState(() => getVaultStatus() === 'locked');
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.CHAT);
+  const [graphFocusIds, setGraphFocusIds] = useState<string[]>([]);
+  const [editorTabs, setEditorTabs] = useState<{ openIds: string[]; activeId: string | null }>({ openIds: [], activeId: null });
+  const [editorDrafts, setEditorDrafts] = useState<Record<string, string>>({});
+  const [editorReveal, setEditorReveal] = useState<{ fileId: string; line: number; key: number } | null>(null);
   const [agentState, setAgentState] = useState<AgentState>({ status: 'idle' });
   const [isImporting, setIsImporting] = useState(false);
+  const [githubTree, setGithubTree] = useState<{ url: string; tree: GithubRepoTree } | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [uploadPlan, setUploadPlan] = useState<UploadPlan | null>(null);
+  const [isGithubModalOpen, setIsGithubModalOpen] = useState(false);
+  const [pinnedFileIds, setPinnedFileIds] = useState<string[]>([]);
+  const [excludedFileIds, setExcludedFileIds] = useState<string[]>([]);
+  const [lastContextIds, setLastContextIds] = useState<string[]>([]);
+  const [timelineFileId, setTimelineFileId] = useState<string | null>(null);
   const [lastSaved, setLastSaved] = useState<number | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set while a freshly loaded workspace is applied, so loading does not count as an edit
+  const skipTouchRef = useRef(true);
+  // Latest workspace and files, for async handlers whose closures outlive a render
+  const activeWorkspaceRef = useRef(activeWorkspaceId);
+  const filesRef = useRef(files);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  // Persist messages whenever they change
-  useEffect(() => {
+  /**
+   * Loads a workspace and swaps it in. Everything is set in one batch so the
+   * persist effects never write one workspace's state under another's id.
+   */
+  const openWorkspace = async (workspaceId: string, meta?: WorkspaceMeta) => {
+    setIsHydrated(false);
     try {
-      localStorage.setItem(STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
-      setLastSaved(Date.now());
+      const saved = await loadWorkspace(workspaceId);
+      setMessages(saved.messages.length > 0 ? saved.messages : [DEFAULT_MESSAGE]);
+      setFiles(saved.files);
+      setWorkspaceHistory(saved.revisions || EMPTY_HISTORY);
     } catch (e) {
-      console.error('Failed to save messages to local storage (likely quota exceeded):', e);
+      setStorageError(`Could not open local storage: ${e instanceof Error ? e.message : String(e)}`);
     }
-  }, [messages]);
+    setAgentMode(meta?.agentMode ?? DEFAULT_WORKSPACE_SETTINGS.agentMode);
+    setThinkingBudget(meta?.thinkingBudget ?? DEFAULT_WORKSPACE_SETTINGS.thinkingBudget);
+    setPinnedFileIds([]);
+    setExcludedFileIds([]);
+    setLastContextIds([]);
+    setTimelineFileId(null);
+    setGraphFocusIds([]);
+    setEditorTabs({ openIds: [], activeId: null });
+    setEditorDrafts({});
+    setAgentState({ status: 'idle' });
+    setActiveWorkspaceId(workspaceId);
+    skipTouchRef.current = true;
+    setIsHydrated(true);
+  };
 
-  // Persist files whenever they change
+  // Restore the last open workspace (migrating any older single-session data) on mount
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEYS.FILES, JSON.stringify(files));
-      setLastSaved(Date.now());
-    } catch (e) {
-      console.error('Failed to save files to local storage (likely quota exceeded):', e);
+    initWorkspaces(DEFAULT_WORKSPACE_SETTINGS)
+      .then(({ workspaces: saved, activeId }) => {
+        setWorkspaces(saved);
+        return openWorkspace(activeId, saved.find(w => w.id === activeId));
+      })
+      .catch(e => {
+        setStorageError(`Could not open local storage: ${e instanceof Error ? e.message : String(e)}`);
+        setIsHydrated(true);
+      });
+  }, []);
+
+  const handlePersistResult = (write: Promise<void>) => {
+    write
+      .then(async () => {
+        setLastSaved(Date.now());
+        setStorageError(null);
+        setStorageUsage(await getStorageUsage());
+      })
+      .catch(e => {
+        setStorageError(isQuotaExceeded(e)
+          ? 'Storage quota exceeded. Remove large files or images to keep saving.'
+          : `Failed to save workspace: ${e instanceof Error ? e.message : String(e)}`);
+      });
+  };
+
+  useEffect(() => {
+    activeWorkspaceRef.current = activeWorkspaceId;
+    filesRef.current = files;
+  }, [activeWorkspaceId, files]);
+
+  // Persist incrementally whenever state changes (only after the initial restore)
+  useEffect(() => {
+    if (isHydrated) handlePersistResult(saveMessages(activeWorkspaceId, messages));
+  }, [messages, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) handlePersistResult(saveFiles(activeWorkspaceId, files));
+  }, [files, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) handlePersistResult(saveRevisions(activeWorkspaceId, workspaceHistory));
+  }, [workspaceHistory, isHydrated]);
+
+  // Keeps the workspace entry (settings, last modified) in step with its content
+  useEffect(() => {
+    if (!isHydrated) return;
+    if (skipTouchRef.current) {
+      skipTouchRef.current = false;
+      return;
     }
-  }, [files]);
+    const current = workspaces.find(w => w.id === activeWorkspaceId);
+    if (!current) return;
+    const updated: WorkspaceMeta = { ...current, agentMode, thinkingBudget, updatedAt: Date.now() };
+    setWorkspaces(prev => prev.map(w => w.id === updated.id ? updated : w));
+    handlePersistResult(saveWorkspaceMeta(updated));
+  }, [messages, files, agentMode, thinkingBudget, isHydrated]);
 
   useEffect(() => {
     if (viewMode === ViewMode.CHAT) {
@@ -88,36 +188,270 @@ export default function App() {
     }
   }, [messages, viewMode]);
 
+  const activeModel = getModelInfo(modeModels[agentMode]);
+
   const handleModeChange = (mode: AgentMode) => {
     setAgentMode(mode);
-    if (mode === AgentMode.ARCHITECT || mode === AgentMode.DEBUG) {
-      setThinkingBudget(4096);
-    } else {
-      setThinkingBudget(0);
+    setThinkingBudget(getModelInfo(modeModels[mode]).defaultBudget);
+  };
+
+  const handleModeModelChange = (mode: AgentMode, modelId: string) => {
+    const next = { ...modeModels, [mode]: modelId };
+    setModeModels(next);
+    saveModeModels(next);
+    if (mode === agentMode) {
+      const model = getModelInfo(modelId);
+      setThinkingBudget(thinkingBudget === 0 ? model.defaultBudget : clampBudget(model, thinkingBudget));
     }
   };
 
+  // getProvider() rebuilds from storage, so saving is all a switch takes
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
   const handleResetSession = () => {
-    if (window.confirm("Are you sure you want to reset the session? This will delete all chat history and loaded files locally.")) {
-      localStorage.removeItem(STORAGE_KEYS.MESSAGES);
-      localStorage.removeItem(STORAGE_KEYS.FILES);
+    if (window.confirm("Are you sure you want to reset this workspace? This will delete its chat history and loaded files locally.")) {
+      abortControllerRef.current?.abort();
+      handlePersistResult(clearWorkspace(activeWorkspaceId));
       setMessages([DEFAULT_MESSAGE]);
       setFiles([]);
+      setWorkspaceHistory(EMPTY_HISTORY);
+      setPinnedFileIds([]);
+      setExcludedFileIds([]);
+      setLastContextIds([]);
       setAgentState({ status: 'idle' });
       setViewMode(ViewMode.CHAT);
     }
   };
 
+  const handleSwitchWorkspace = async (workspaceId: string, list: WorkspaceMeta[] = workspaces) => {
+    if (workspaceId === activeWorkspaceId && isHydrated) return;
+    abortControllerRef.current?.abort();
+    handlePersistResult(persistActiveWorkspaceId(workspaceId));
+    await openWorkspace(workspaceId, list.find(w => w.id === workspaceId));
+  };
+
+  const createWorkspaceMeta = (name: string, settings = DEFAULT_WORKSPACE_SETTINGS): WorkspaceMeta => {
+    const now = Date.now();
+    return { id: 'ws-' + now, name, createdAt: now, updatedAt: now, ...settings };
+  };
+
+  const handleCreateWorkspace = async () => {
+    const name = window.prompt('Name for the new workspace:', `Workspace ${workspaces.length + 1}`);
+    if (!name?.trim()) return;
+    const meta = createWorkspaceMeta(name.trim());
+    try {
+      await saveWorkspaceMeta(meta);
+    } catch (e) {
+      setStorageError(`Failed to create workspace: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const list = [...workspaces, meta];
+    setWorkspaces(list);
+    await handleSwitchWorkspace(meta.id, list);
+  };
+
+  const handleRenameWorkspace = (workspaceId: string) => {
+    const current = workspaces.find(w => w.id === workspaceId);
+    if (!current) return;
+    const name = window.prompt('Rename workspace:', current.name);
+    if (!name?.trim() || name.trim() === current.name) return;
+    const updated = { ...current, name: name.trim(), updatedAt: Date.now() };
+    setWorkspaces(prev => prev.map(w => w.id === workspaceId ? updated : w));
+    handlePersistResult(saveWorkspaceMeta(updated));
+  };
+
+  const handleDuplicateWorkspace = async (workspaceId: string) => {
+    const source = workspaces.find(w => w.id === workspaceId);
+    if (!source) return;
+    const meta = createWorkspaceMeta(`${source.name} (copy)`, { agentMode: source.agentMode, thinkingBudget: source.thinkingBudget });
+    try {
+      await duplicateWorkspace(workspaceId, meta);
+    } catch (e) {
+      setStorageError(isQuotaExceeded(e)
+        ? 'Storage quota exceeded. Not enough space to duplicate this workspace.'
+        : `Failed to duplicate workspace: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const list = [...workspaces, meta];
+    setWorkspaces(list);
+    await handleSwitchWorkspace(meta.id, list);
+  };
+
+  const handleDeleteWorkspace = async (workspaceId: string) => {
+    const target = workspaces.find(w => w.id === workspaceId);
+    if (!target || workspaces.length === 1) return;
+    if (!window.confirm(`Delete workspace "${target.name}"? Its chat history, files and revisions will be removed permanently.`)) return;
+
+    const list = workspaces.filter(w => w.id !== workspaceId);
+    if (workspaceId === activeWorkspaceId) {
+      await handleSwitchWorkspace(list[0].id, list);
+    }
+    setWorkspaces(list);
+    handlePersistResult(deleteWorkspace(workspaceId));
+  };
+
+  const handleExportBundle = () => {
+    const meta = workspaces.find(w => w.id === activeWorkspaceId);
+    if (!meta) return;
+    const bundle = createSessionBundle({ ...meta, agentMode, thinkingBudget }, messages, files, workspaceHistory);
+    downloadText(toFileName(meta.name, 'codeagent.json'), JSON.stringify(bundle, null, 2), 'application/json');
+  };
+
+  const handleExportTranscript = (includeReasoning: boolean) => {
+    const name = workspaces.find(w => w.id === activeWorkspaceId)?.name || 'Session';
+    downloadText(toFileName(name, 'md'), buildTranscript(name, messages, includeReasoning), 'text/markdown');
+  };
+
+  // Bundles always land in a new workspace so nothing local is overwritten
+  const handleImportBundle = async (file: File) => {
+    try {
+      const bundle = parseSessionBundle(await file.text());
+      const meta = createWorkspaceMeta(`${bundle.workspace.name} (imported)`, {
+        agentMode: bundle.workspace.agentMode,
+        thinkingBudget: bundle.workspace.thinkingBudget
+      });
+      await createWorkspace(meta, { messages: bundle.messages, files: bundle.files, revisions: bundle.revisions });
+      const list = [...workspaces, meta];
+      setWorkspaces(list);
+      await handleSwitchWorkspace(meta.id, list);
+    } catch (e) {
+      window.alert(isQuotaExceeded(e)
+        ? 'Storage quota exceeded. Not enough space to import this session.'
+        : `Could not import session: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
   const graphData = useMemo(() => generateDependencyGraph(files), [files]);
+  const chatHistory = useMemo(() => buildChatHistory(messages, historyTokenBudget), [messages, historyTokenBudget]);
+
+  /**
+   * Starts a cancellable agent run. Every model call made for the run (including
+   * each DEBUG stage) shares the returned signal, so one abort stops them all.
+   */
+  const beginRun = (): AbortController => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  };
 
-  const processResponse = (fullText: string): { text: string; thoughts?: string } => {
-    const thinkingMatch = fullText.match(/<thinking>([\s\S]*?)<\/thinking>/);
-    if (thinkingMatch) {
-      const thoughts = thinkingMatch[1].trim();
-      const text = fullText.replace(/<thinking>[\s\S]*?<\/thinking>/, '').trim();
-      return { text, thoughts };
+  const endRun = (controller: AbortController) => {
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
     }
-    return { text: fullText };
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Keeps whatever text and reasoning already reached the placeholder
+  const markCancelled = (messageId: string) => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId
+        ? { ...msg, isThinking: false, isCancelled: true }
+        : msg
+    ));
+    setAgentState({ status: 'idle' });
+  };
+
+  /**
+   * Turns a placeholder into an error bubble, keeping any partial answer.
+   * `retry` describes how the Retry button replays the request.
+   */
+  const markFailed = (messageId: string, error: unknown, retry?: RetryTarget) => {
+    const agentError = toAgentError(error);
+    if (agentError.kind === 'cancelled') {
+      markCancelled(messageId);
+      return;
+    }
+    console.error(error);
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId
+        ? { ...msg, isThinking: false, error: toMessageError(agentError), retry }
+        : msg
+    ));
+    setAgentState({ status: 'error' });
+    setTimeout(() => setAgentState({ status: 'idle' }), 2000);
+  };
+
+  /**
+   * Streams a response into an existing placeholder message, filling the
+   * reasoning trace and the answer as chunks arrive. Resolves with the final
+   * text once the stream ends, and throws if the run is aborted.
+   */
+  const streamIntoMessage = async (
+    messageId: string,
+    prompt: string,
+    mode: AgentMode,
+    contextFiles: FileContext[],
+    history: HistoryItem[],
+    relevantFileIds: string[] | null,
+    budget: number,
+    signal: AbortSignal
+  ): Promise<{ text: string; thoughts?: string }> => {
+    let text = '';
+    let thoughts = '';
+
+    for await (const chunk of streamMessageFromGemini(prompt, mode, contextFiles, history, relevantFileIds, budget, signal)) {
+      if (chunk.kind === 'thought') thoughts += chunk.text;
+      else text += chunk.text;
+
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId
+          ? { ...msg, text: text, thoughts: thoughts || undefined }
+          : msg
+      ));
+    }
+    signal.throwIfAborted();
+
+    return { text: text.trim(), thoughts: thoughts.trim() || undefined };
+  };
+
+  const workspaceEstimate = useMemo(
+    () => estimateRequestTokens(agentMode, files, chatHistory.estimatedTokens, input, debugPipeline.maxIterations),
+    [agentMode, files, chatHistory, input, debugPipeline.maxIterations]
+  );
+
+  const pickContextIds = (prompt: string): string[] => {
+    return selectRelevantFiles(prompt, files, graphData, {
+      pinnedIds: pinnedFileIds,
+      excludedIds: excludedFileIds
+    }).includedIds;
+  };
+
+  /**
+   * Records the chosen context on the placeholder message so the user can see
+   * what the model was given.
+   */
+  const recordContext = (messageId: string, includedIds: string[]) => {
+    const included = new Set(includedIds);
+
+    setLastContextIds(includedIds);
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId
+        ? { ...msg, contextFileNames: files.filter(f => included.has(f.id)).map(f => f.name) }
+        : msg
+    ));
+  };
+
+  const selectContextFor = (prompt: string, messageId: string): string[] => {
+    const includedIds = pickContextIds(prompt);
+    recordContext(messageId, includedIds);
+    return includedIds;
+  };
+
+  const togglePinned = (id: string) => {
+    setPinnedFileIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+    setExcludedFileIds(prev => prev.filter(e => e !== id));
+  };
+
+  const toggleExcluded = (id: string) => {
+    setExcludedFileIds(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+    setPinnedFileIds(prev => prev.filter(p => p !== id));
   };
 
   const triggerAutoAnalysis = async (currentFiles: FileContext[], newFileCount: number, source: 'upload' | 'github') => {
@@ -128,10 +462,12 @@ export default function App() {
       role: 'model',
       text: '',
       timestamp: Date.now(),
-      isThinking: true
+      isThinking: true,
+      mode: AgentMode.ARCHITECT
     }]);
 
     setAgentState({ status: 'analyzing' });
+    const controller = beginRun();
 
     try {
       let prompt = '';
@@ -141,17 +477,17 @@ export default function App() {
         prompt = `I have just uploaded ${newFileCount} new file(s) to the workspace. \n\nPlease perform an immediate analysis of the codebase context. \n1. Summarize the architectural structure based on these new additions.\n2. Identify any potential bugs, security risks, or performance bottlenecks.\n3. Suggest the next logical step for development.\n\nKeep the response concise and actionable.`;
       }
 
-      const responseText = await sendMessageToGemini(
+      const { text, thoughts } = await streamIntoMessage(
+        thinkingMsgId,
         prompt,
         AgentMode.ARCHITECT,
         currentFiles,
         [],
         null,
-        Math.max(thinkingBudget, 2048)
+        Math.max(thinkingBudget, 2048),
+        controller.signal
       );
 
-      const { text, thoughts } = processResponse(responseText);
-
       setMessages(prev => prev.map(msg =>
         msg.id === thinkingMsgId
           ? { ...msg, text: text, thoughts: thoughts, isThinking: false }
@@ -160,109 +496,428 @@ export default function App() {
       setAgentState({ status: 'idle' });
 
     } catch (error) {
-      console.error(error);
-      setMessages(prev => prev.map(msg =>
-        msg.id === thinkingMsgId
-          ? { ...msg, text: "System Error: Automated analysis failed.", isThinking: false }
-          : msg
-      ));
-      setAgentState({ status: 'error' });
+      if (controller.signal.aborted) {
+        markCancelled(thinkingMsgId);
+        return;
+      }
+      markFailed(thinkingMsgId, error, { kind: 'auto-analysis', source, fileCount: newFileCount });
+    } finally {
+      endRun(controller);
     }
   };
 
+  // Error bubble for a failure outside a model run, e.g. an import
+  const reportError = (error: unknown, label: string, retry?: RetryTarget) => {
+    const agentError = toAgentError(error);
+    const errorMsg: Message = {
+      id: Date.now().toString(),
+      role: 'model',
+      text: '',
+      timestamp: Date.now(),
+      error: { ...toMessageError(agentError), message: `${label}: ${agentError.message}` },
+      retry
+    };
+    setMessages(prev => [...prev, errorMsg]);
+    setAgentState({ status: 'error' });
+    setTimeout(() => setAgentState({ status: 'idle' }), 2000);
+  };
+
+  const reportGithubError = (error: unknown, retry?: RetryTarget, label = 'GitHub import failed') => reportError(error, label, retry);
+
+  /**
+   * Adds an issue or pull request (with review threads) as an `issue` item and
+   * pins it, so every request, including DEBUG triage, sees the real report.
+   */
+  const handleIssueImport = async (url: string) => {
+    const issue = await fetchGithubIssue(url, getGithubToken());
+    const isUpdate = files.some(f => f.id === issue.id);
+    setFiles(prev => isUpdate ? prev.map(f => f.id === issue.id ? issue : f) : [...prev, issue]);
+    setPinnedFileIds(prev => prev.includes(issue.id) ? prev : [...prev, issue.id]);
+    setExcludedFileIds(prev => prev.filter(id => id !== issue.id));
+    notify(`${isUpdate ? 'Refreshed' : 'Imported'} \`${issue.name}\` into context and pinned it. Switch to DEBUG mode to triage it against the code.`);
+  };
+
+  // Lists the repository and opens the picker; nothing is downloaded yet
   const handleGithubImport = async (url: string) => {
     setIsImporting(true);
+    try {
+      if (parseGithubIssueUrl(url)) {
+        await handleIssueImport(url);
+        return;
+      }
+      const tree = await fetchGithubTree(url, getGithubToken());
+      if (tree.entries.length === 0) throw new InvalidInputError("The repository has no files.");
+      setGithubTree({ url, tree });
+    } catch (error) {
+      reportGithubError(error, { kind: 'github-import', url });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  /**
+   * Adds imported repo files to the workspace the import started in, merging
+   * against the latest files rather than the ones captured when it started.
+   * Returns null when the user switched workspaces in the meantime.
+   */
+  const mergeImportedFiles = (repoFiles: FileContext[], workspaceId: string, source: string) => {
+    if (activeWorkspaceRef.current !== workspaceId) {
+      notify(`Discarded the import from ${source} because the workspace changed while it was loading.`);
+      return null;
+    }
+    // Files already imported from the same repo, ref and path are kept as they are
+    const existingKeys = new Set(filesRef.current.map(repoFileKey));
+    const newFiles = repoFiles.filter(f => !existingKeys.has(repoFileKey(f)));
+    const updatedFiles = [...filesRef.current, ...newFiles];
+    filesRef.current = updatedFiles;
+    setFiles(prev => {
+      const keys = new Set(prev.map(repoFileKey));
+      return [...prev, ...newFiles.filter(f => !keys.has(repoFileKey(f)))];
+    });
+    return { newFiles, updatedFiles };
+  };
+
+  const handleGithubSelection = async (entries: GithubTreeEntry[]) => {
+    if (!githubTree) return;
+    const { tree } = githubTree;
+    const source = `${tree.owner}/${tree.repo}@${tree.ref}${tree.path ? `/${tree.path}` : ''}`;
+    const workspaceId = activeWorkspaceId;
+    setImportProgress({ done: 0, total: entries.length });
     setAgentState({ status: 'analyzing' });
+
     try {
-      const repoFiles = await fetchGithubRepo(url);
-      const updatedFiles = [...files, ...repoFiles];
-      setFiles(updatedFiles);
+      const { files: repoFiles, skipped } = await fetchGithubFiles(githubTree.tree, entries, getGithubToken(), setImportProgress);
+      setGithubTree(null);
+      const merged = mergeImportedFiles(repoFiles, workspaceId, source);
+      if (!merged) {
+        setAgentState({ status: 'idle' });
+        return;
+      }
+      const { newFiles, updatedFiles } = merged;
 
+      const skippedNote = skipped.length > 0 ? ` Skipped ${skipped.length} binary or unreadable file(s).` : '';
       const systemMsg: Message = {
         id: Date.now().toString(),
         role: 'model',
-        text: `> System Notification: Imported ${repoFiles.length} files from ${url}. Initializing Analysis Protocol...`,
+        text: `> System Notification: Imported ${newFiles.length} files from ${source} (commit ${tree.commitSha.slice(0, 7)}).${skippedNote} Initializing Analysis Protocol...`,
         timestamp: Date.now()
       };
       setMessages(prev => [...prev, systemMsg]);
 
-      await triggerAutoAnalysis(updatedFiles, repoFiles.length, 'github');
+      await triggerAutoAnalysis(updatedFiles, newFiles.length, 'github');
     } catch (error) {
-      const errorMsg: Message = {
-        id: Date.now().toString(),
-        role: 'model',
-        text: `Error: GitHub Import Failed. ${error instanceof Error ? error.message : "Unknown error"}`,
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, errorMsg]);
-      setAgentState({ status: 'error' });
+      setGithubTree(null);
+      reportGithubError(error);
     } finally {
-      setIsImporting(false);
-      if (agentState.status === 'error') {
-        setTimeout(() => setAgentState({ status: 'idle' }), 2000);
+      setImportProgress(null);
+    }
+  };
+
+  // Quick import from the GitHub modal (default filters, no picker)
+  const handleModalImport = async (repoFiles: FileContext[], url: string) => {
+    // This closure dates from when the import started, so its workspace id is the one to import into
+    const merged = mergeImportedFiles(repoFiles, activeWorkspaceId, url);
+    if (!merged) return;
+    const { newFiles, updatedFiles } = merged;
+    notify(`Imported ${newFiles.length} files from ${url}. Initializing Analysis Protocol...`);
+    await triggerAutoAnalysis(updatedFiles, newFiles.length, 'github');
+  };
+
+  const handleGeneratePullRequest = (changedPaths: string[]) => {
+    const name = workspaces.find(w => w.id === activeWorkspaceId)?.name || 'Session';
+    const transcript = buildTranscript(name, messages, false).slice(-MAX_PR_TRANSCRIPT_CHARS);
+    return generatePullRequestText(transcript, changedPaths);
+  };
+
+  /**
+   * Loads a pull request's diff and base files, then asks ARCHITECT for
+   * line-level findings. The base files join the workspace so follow-up
+   * questions can reference them.
+   */
+  const handleReviewPullRequest = async (url: string, token = getGithubToken()) => {
+    const thinkingMsgId = 'pr-review-' + Date.now();
+    setAgentState({ status: 'analyzing', currentAction: 'Loading pull request...' });
+
+    let diff;
+    try {
+      diff = await fetchPullRequestDiff(url, token);
+    } catch (error) {
+      reportGithubError(error, { kind: 'pr-review', url }, 'Could not load the pull request');
+      return;
+    }
+
+    const existingKeys = new Set(files.map(repoFileKey));
+    const newFiles = diff.baseFiles.filter(f => !existingKeys.has(repoFileKey(f)));
+    setFiles(prev => [...prev, ...newFiles]);
+
+    const label = `${diff.owner}/${diff.repo}#${diff.number}`;
+    const requestMessageId = 'req-' + Date.now();
+    setMessages(prev => [...prev, {
+      id: requestMessageId,
+      role: 'user',
+      text: `Review pull request ${label}: ${diff.title}`,
+      timestamp: Date.now()
+    }, {
+      id: thinkingMsgId,
+      role: 'model',
+      text: '',
+      timestamp: Date.now(),
+      isThinking: true,
+      mode: AgentMode.ARCHITECT
+    }]);
+
+    // Findings can only be posted inline on lines that appear in the diff
+    const rightLines = new Map<string, Set<number>>();
+    const annotatedDiff = diff.files.map(file => {
+      if (!file.patch) return `### ${file.path} (${file.status}, diff not available)`;
+      const annotated = annotateUnifiedDiff(file.patch);
+      rightLines.set(file.path, new Set(annotated.rightLines));
+      return `### ${file.path} (${file.status})\n${annotated.text}`;
+    }).join('\n\n');
+
+    const controller = beginRun();
+    setAgentState({ status: 'analyzing', currentAction: `Reviewing ${diff.files.length} changed file(s)...` });
+
+    try {
+      const result = await reviewPullRequestDiff(
+        diff.title,
+        diff.body,
+        annotatedDiff,
+        diff.baseFiles,
+        Math.max(thinkingBudget, 2048),
+        controller.signal
+      );
+
+      const findings: ReviewFinding[] = result.findings.map((f, i) => ({
+        ...f,
+        id: `${thinkingMsgId}-${i}`,
+        inDiff: rightLines.get(f.path)?.has(f.line) ?? false
+      }));
+      const counts = (['critical', 'major', 'minor', 'nit'] as const)
+        .map(severity => [severity, findings.filter(f => f.severity === severity).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([severity, count]) => `${count} ${severity}`);
+
+      setMessages(prev => prev.map(msg =>
+        msg.id === thinkingMsgId
+          ? {
+            ...msg,
+            isThinking: false,
+            text: `## Review of ${label}: ${diff.title}\n\n${result.summary}\n\n**Findings:** ${counts.length > 0 ? counts.join(', ') : 'none'}`,
+            review: {
+              owner: diff.owner,
+              repo: diff.repo,
+              number: diff.number,
+              title: diff.title,
+              headSha: diff.headSha,
+              summary: result.summary,
+              findings
+            }
+          }
+          : msg
+      ));
+      setAgentState({ status: 'idle' });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        markCancelled(thinkingMsgId);
+        return;
       }
+      markFailed(thinkingMsgId, error, { kind: 'pr-review', url, requestMessageId });
+    } finally {
+      endRun(controller);
+    }
+  };
+
+  // Posts the selected findings as one COMMENT review; findings outside the diff go into its body
+  const handlePostReview = async (messageId: string, findingIds: string[]) => {
+    const review = messages.find(m => m.id === messageId)?.review;
+    if (!review) return;
+    const retry: RetryTarget = { kind: 'post-review', messageId, findingIds };
+    const token = getGithubToken();
+    if (!token) {
+      reportGithubError(new AuthError('Posting a review needs a GitHub token with write access.'), retry, 'Could not post the review');
+      return;
+    }
+
+    const selected = review.findings.filter(f => findingIds.includes(f.id));
+    const formatFinding = (f: ReviewFinding) => `**[${f.severity}] ${f.title}**\n\n${f.body}`;
+    const outside = selected.filter(f => !f.inDiff);
+    const body = [
+      review.summary,
+      ...(outside.length > 0 ? ['### Other findings', ...outside.map(f => `\`${f.path}:${f.line}\` ${formatFinding(f)}`)] : [])
+    ].join('\n\n');
+
+    try {
+      const postedUrl = await postPullRequestReview(
+        review.owner,
+        review.repo,
+        review.number,
+        token,
+        review.headSha,
+        body,
+        selected.filter(f => f.inDiff).map(f => ({ path: f.path, line: f.line, body: formatFinding(f) }))
+      );
+      setMessages(prev => prev.map(msg =>
+        msg.id === messageId && msg.review ? { ...msg, review: { ...msg.review, postedUrl } } : msg
+      ));
+      notify(`Posted ${selected.length} finding(s) to ${review.owner}/${review.repo}#${review.number}.`);
+    } catch (error) {
+      reportGithubError(error, retry, 'Could not post the review');
     }
   };
 
+  // Uploads are filtered first; the summary modal lists what was skipped before anything is added
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      setAgentState({ status: 'analyzing' });
-
-      const newFiles: FileContext[] = [];
-      for (let i = 0; i < e.target.files.length; i++) {
-        const file = e.target.files[i];
-        const reader = new FileReader();
-        const isImage = file.type.startsWith('image/');
-
-        await new Promise<void>((resolve) => {
-          reader.onload = (event) => {
-            const content = event.target?.result as string;
-            const finalContent = isImage ? content.split(',')[1] : content;
-            let type: FileContext['type'] = 'file';
-            const lowerName = file.name.toLowerCase();
-            if (isImage) { type = 'image'; }
-            else if (lowerName.endsWith('.log')) { type = 'log'; }
-            else if (lowerName.endsWith('.json') || lowerName.endsWith('.csv')) { type = 'metric'; }
-            else if (lowerName.includes('issue') || lowerName.includes('report')) { type = 'issue'; }
-
-            const fileName = file.webkitRelativePath || file.name;
-            newFiles.push({
-              id: Math.random().toString(36).substring(7),
-              name: fileName,
-              content: finalContent,
-              type: type,
-              mimeType: file.type
-            });
-            resolve();
-          };
-          if (isImage) reader.readAsDataURL(file);
-          else reader.readAsText(file);
-        });
-      }
+    if (!e.target.files || e.target.files.length === 0) return;
+    const uploads = Array.from(e.target.files);
+    e.target.value = '';
+
+    // Reading and the follow-up analysis would take over the run in flight
+    if (agentState.status !== 'idle') {
+      notify('Wait for the current run to finish before uploading files.');
+      return;
+    }
 
-      const updatedFiles = [...files, ...newFiles];
-      setFiles(updatedFiles);
-      e.target.value = '';
-      await triggerAutoAnalysis(updatedFiles, newFiles.length, 'upload');
+    setAgentState({ status: 'analyzing', currentAction: `Reading ${uploads.length} file(s)...` });
+    let plan;
+    try {
+      plan = await prepareUpload(uploads);
+    } catch (error) {
+      reportError(error, 'Upload failed');
+      return;
+    }
+    setAgentState({ status: 'idle' });
+
+    if (plan.skipped.length > 0) {
+      setUploadPlan(plan);
+    } else {
+      await addUploadedFiles(plan.files);
     }
   };
 
+  const addUploadedFiles = async (newFiles: FileContext[]) => {
+    setUploadPlan(null);
+    if (newFiles.length === 0) return;
+    const updatedFiles = [...files, ...newFiles];
+    setFiles(updatedFiles);
+    await triggerAutoAnalysis(updatedFiles, newFiles.length, 'upload');
+  };
+
   const removeFile = (id: string) => {
     setFiles(files.filter(f => f.id !== id));
   };
 
-  const handleSend = async () => {
-    if (!input.trim() && files.length === 0) return;
+  const removeFiles = (ids: string[]) => {
+    const removed = new Set(ids);
+    setFiles(files.filter(f => !removed.has(f.id)));
+  };
+
+  // Prefills the prompt; mentioning the paths steers context selection to them
+  const handleAskAbout = (paths: string[]) => {
+    const list = paths.map(p => `\`${p}\``).join(', ');
+    setInput(paths.length === 1 && paths[0].endsWith('/')
+      ? `Walk me through ${list}: what each file does and how they depend on each other.`
+      : `Explain ${list}: its purpose, key functions and how it is used elsewhere.`);
+    setViewMode(ViewMode.CHAT);
+    inputRef.current?.focus();
+  };
+
+  const openInEditor = (id: string) => {
+    setEditorTabs(prev => ({ openIds: prev.openIds.includes(id) ? prev.openIds : [...prev.openIds, id], activeId: id }));
+    setViewMode(ViewMode.EDITOR);
+  };
+
+  const handleOpenCitation = (fileId: string, line: number) => {
+    openInEditor(fileId);
+    setEditorReveal({ fileId, line, key: Date.now() });
+  };
+
+  const closeEditorTab = (id: string) => {
+    setEditorTabs(prev => {
+      const openIds = prev.openIds.filter(o => o !== id);
+      const index = prev.openIds.indexOf(id);
+      return { openIds, activeId: prev.activeId === id ? openIds[Math.min(index, openIds.length - 1)] ?? null : prev.activeId };
+    });
+    handleDraftChange(id, null);
+  };
+
+  const handleDraftChange = (id: string, content: string | null) => {
+    setEditorDrafts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return content === null ? rest : { ...rest, [id]: content };
+    });
+  };
+
+  // Manual saves are recorded like applied edits, so they show in the timeline and can be undone
+  const handleSaveFile = (id: string, content: string) => {
+    const file = files.find(f => f.id === id);
+    if (!file) return;
+    const next = files.map(f => f.id === id ? { ...f, content } : f);
+    setWorkspaceHistory(prev => recordRevision(prev, {
+      id: 'rev-' + Date.now(),
+      timestamp: Date.now(),
+      label: `Edited ${file.name}`,
+      changes: diffWorkspaces(files, next)
+    }));
+    setFiles(next);
+    handleDraftChange(id, null);
+  };
+
+  const handleSelectionAction = (id: string, startLine: number, endLine: number, action: SelectionAction) => {
+    const file = files.find(f => f.id === id);
+    // handleSend would abort the run in flight
+    if (!file || agentState.status !== 'idle') return;
+    const numbered = numberLines(file.content.split('\n').slice(startLine - 1, endLine).join('\n'), startLine);
+    const range = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+    const request = action === 'explain'
+      ? `Explain ${range} of \`${file.name}\`: what the code does, why, and anything surprising. Refer to lines by number.`
+      : `Refactor ${range} of \`${file.name}\` for readability and correctness without changing behavior. Propose the change as an edit to \`${file.name}\` and explain each change by line number.`;
+
+    setViewMode(ViewMode.CHAT);
+    handleSend(`${request}\n\n\`\`\`${languageFor(file.name)}\n${numbered}\n\`\`\``);
+  };
+
+  // Graph nodes are keyed by file name
+  const handleShowInGraph = (ids: string[]) => {
+    setGraphFocusIds(files.filter(f => ids.includes(f.id)).map(f => f.name));
+    setViewMode(ViewMode.GRAPH);
+  };
+
+  // `prompt` lets other views (e.g. the editor's selection actions) send without going through the input box;
+  // a retry also passes the original mode and the history as it was before the failed turn
+  const handleSend = async (prompt = input, mode = agentMode, priorHistory: ChatHistory = chatHistory) => {
+    // beginRun would abort the run in flight; Enter reaches here even while Send is disabled
+    if (agentState.status !== 'idle') return;
+    if (!prompt.trim() && files.length === 0) return;
+
+    const relevantFileIds = pickContextIds(prompt);
+    const estimate = estimateRequestTokens(
+      mode,
+      files.filter(f => relevantFileIds.includes(f.id)),
+      priorHistory.estimatedTokens,
+      prompt,
+      debugPipeline.maxIterations
+    );
+    if (estimate.exceedsWindow) {
+      // The estimate is rough; ask the provider for the real size before warning
+      const counted = await countPromptTokens(prompt, mode, files, priorHistory.history, relevantFileIds);
+      const promptTokens = counted ?? estimate.promptTokens;
+      if (promptTokens > estimate.contextWindow && !window.confirm(
+        `This request is ${counted === null ? 'estimated at ~' : ''}${formatTokens(promptTokens)} tokens, which exceeds the ${formatTokens(estimate.contextWindow)} context window of the selected model. Send anyway?`
+      )) {
+        return;
+      }
+    }
 
     const userMsg: Message = {
       id: Date.now().toString(),
       role: 'user',
-      text: input,
+      text: prompt,
       timestamp: Date.now()
     };
 
     setMessages(prev => [...prev, userMsg]);
-    setInput('');
+    if (prompt === input) setInput('');
     setAgentState({ status: 'analyzing' });
 
     const thinkingMsgId = 'thinking-' + Date.now();
@@ -271,112 +926,63 @@ export default function App() {
       role: 'model',
       text: '',
       timestamp: Date.now(),
-      isThinking: true
+      isThinking: true,
+      mode
     }]);
 
+    const controller = beginRun();
+    // Captured before this turn was appended, so it only holds prior turns
+    const { history } = priorHistory;
+    recordContext(thinkingMsgId, relevantFileIds);
+
+    // Surfaces each DEBUG stage as it finishes so a cancelled run keeps its timeline
+    const showProgress = (debugRun: DebugIteration[]) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === thinkingMsgId ? { ...msg, debugRun } : msg
+      ));
+    };
+
     try {
-      if (agentMode === AgentMode.DEBUG) {
+      if (mode === AgentMode.DEBUG) {
         // --- DEBUG MODE FLOW ---
-
-        // Step 1: Generate Initial Fix
-        const draftResponseText = await sendMessageToGemini(
-          userMsg.text,
-          AgentMode.ARCHITECT,
-          files,
-          [],
-          null,
-          thinkingBudget
-        );
-        const draft = processResponse(draftResponseText);
-
-        // Step 2: Verify Fix
-        setAgentState({ status: 'verifying' });
-
-        const verificationPrompt = `
-          I have generated a potential solution. Now act as a QA Simulation Environment.
-          
-          Proposed Solution:
-          ${draft.text}
-          
-          Your Task:
-          1. Mentally simulate running this code against the provided file context.
-          2. Check for syntax errors, logical flaws, memory leaks, or race conditions.
-          3. Determine if it fully addresses the user's original request: "${userMsg.text}".
-          
-          Output Format:
-          If verified: "STATUS: VERIFIED"
-          If failed: "STATUS: FAILED \n [Detailed reasons why]"
-        `;
-
-        const verificationResponseText = await sendMessageToGemini(
-          verificationPrompt,
-          AgentMode.ARCHITECT,
-          files,
-          [{ role: 'user', parts: [{ text: userMsg.text }] }, { role: 'model', parts: [{ text: draftResponseText }] }],
-          null,
-          2048 // Lower budget for QA
+        // The Debug mode model and budget badge drive the draft stage; the other stages use their own settings
+        const config = {
+          ...debugPipeline,
+          stages: { ...debugPipeline.stages, draft: { model: modeModels[AgentMode.DEBUG], thinkingBudget } }
+        };
+
+        const { answer, iterations } = await runDebugPipeline(
+          { prompt: userMsg.text, files, history, relevantFileIds },
+          config,
+          (progress) => {
+            const current = progress[progress.length - 1];
+            setAgentState({
+              status: current.status === 'generating' ? (current.index === 0 ? 'analyzing' : 'writing') : 'verifying'
+            });
+            showProgress(progress);
+          },
+          controller.signal
         );
-        const verification = processResponse(verificationResponseText);
-
-        let finalThoughts = draft.thoughts || "";
-        finalThoughts += `\n\n### 🔍 QA Verification Simulation\n${verification.thoughts || "Executing mental sandbox test suite..."}\n\n**Result:** ${verification.text.includes("STATUS: VERIFIED") ? "Pass" : "Fail"}`;
-
-        if (verification.text.includes("STATUS: VERIFIED")) {
-          // Success path
-          setMessages(prev => prev.map(msg =>
-            msg.id === thinkingMsgId
-              ? { ...msg, text: draft.text, thoughts: finalThoughts, isThinking: false }
-              : msg
-          ));
-        } else {
-          // Failure & Fix Path
-          setAgentState({ status: 'writing' }); // Refining
-
-          const refinementPrompt = `
-             The verification simulation failed with the following errors:
-             ${verification.text}
-             
-             Please REWRITE the solution to fix these specific issues. 
-             Provide the complete, corrected code.
-           `;
-
-          const finalFixResponseText = await sendMessageToGemini(
-            refinementPrompt,
-            AgentMode.ARCHITECT,
-            files,
-            [
-              { role: 'user', parts: [{ text: userMsg.text }] },
-              { role: 'model', parts: [{ text: draftResponseText }] },
-              { role: 'user', parts: [{ text: verificationPrompt }] },
-              { role: 'model', parts: [{ text: verificationResponseText }] }
-            ],
-            null,
-            4096
-          );
-          const finalFix = processResponse(finalFixResponseText);
-
-          finalThoughts += `\n\n### 🛠️ Autonomous Repair\nDetected failure in simulation. Applying fixes based on QA feedback.\n${finalFix.thoughts || ""}`;
-
-          setMessages(prev => prev.map(msg =>
-            msg.id === thinkingMsgId
-              ? { ...msg, text: finalFix.text, thoughts: finalThoughts, isThinking: false }
-              : msg
-          ));
-        }
+
+        setMessages(prev => prev.map(msg =>
+          msg.id === thinkingMsgId
+            ? { ...msg, text: answer, debugRun: iterations, isThinking: false }
+            : msg
+        ));
 
       } else {
         // --- STANDARD MODES ---
-        const responseText = await sendMessageToGemini(
+        const { text, thoughts } = await streamIntoMessage(
+          thinkingMsgId,
           userMsg.text,
-          agentMode,
+          mode,
           files,
-          [],
-          null,
-          thinkingBudget
+          history,
+          relevantFileIds,
+          thinkingBudget,
+          controller.signal
         );
 
-        const { text, thoughts } = processResponse(responseText);
-
         setMessages(prev => prev.map(msg =>
           msg.id === thinkingMsgId
             ? { ...msg, text: text, thoughts: thoughts, isThinking: false }
@@ -387,16 +993,49 @@ export default function App() {
       setAgentState({ status: 'idle' });
 
     } catch (error) {
-      setMessages(prev => prev.map(msg =>
-        msg.id === thinkingMsgId
-          ? { ...msg, text: "Critical Failure: Unable to generate response.", isThinking: false }
-          : msg
-      ));
-      setAgentState({ status: 'error' });
+      if (controller.signal.aborted) {
+        markCancelled(thinkingMsgId);
+        return;
+      }
+      markFailed(thinkingMsgId, error, { kind: 'send', prompt, mode, requestMessageId: userMsg.id });
+    } finally {
+      endRun(controller);
+    }
+  };
+
+  // Replays a failed request against the current workspace, replacing the failed exchange
+  const handleRetry = (messageId: string) => {
+    const failed = messages.find(m => m.id === messageId);
+    const target = failed?.retry;
+    if (!target || isRunning) return;
+
+    const remaining = messages.filter(m => m.id !== messageId && m.id !== target.requestMessageId);
+    setMessages(remaining);
+
+    switch (target.kind) {
+      case 'send':
+        handleSend(target.prompt, target.mode, buildChatHistory(remaining, historyTokenBudget));
+        break;
+      case 'auto-analysis':
+        triggerAutoAnalysis(files, target.fileCount, target.source);
+        break;
+      case 'code-review':
+        handleCodeReview(target.code, target.language);
+        break;
+      case 'github-import':
+        handleGithubImport(target.url);
+        break;
+      case 'pr-review':
+        handleReviewPullRequest(target.url);
+        break;
+      case 'post-review':
+        handlePostReview(target.messageId, target.findingIds);
+        break;
     }
   };
 
   const handleCodeReview = async (code: string, language: string) => {
+    if (agentState.status !== 'idle') return;
     setAgentState({ status: 'analyzing' });
     const reviewPrompt = `
       Please review the following ${language} code snippet. 
@@ -420,19 +1059,23 @@ export default function App() {
       role: 'model',
       text: '',
       timestamp: Date.now(),
-      isThinking: true
+      isThinking: true,
+      mode: AgentMode.ARCHITECT
     }]);
 
+    const controller = beginRun();
+
     try {
-      const responseText = await sendMessageToGemini(
+      const { text, thoughts } = await streamIntoMessage(
+        thinkingMsgId,
         reviewPrompt,
         AgentMode.ARCHITECT,
         files,
         [],
-        null,
-        2048
+        selectContextFor(code, thinkingMsgId),
+        2048,
+        controller.signal
       );
-      const { text, thoughts } = processResponse(responseText);
 
       setMessages(prev => prev.map(msg =>
         msg.id === thinkingMsgId
@@ -442,41 +1085,121 @@ export default function App() {
       setAgentState({ status: 'idle' });
 
     } catch (error) {
-      setMessages(prev => prev.map(msg =>
-        msg.id === thinkingMsgId
-          ? { ...msg, text: "Code review process failed.", isThinking: false }
-          : msg
-      ));
-      setAgentState({ status: 'error' });
+      if (controller.signal.aborted) {
+        markCancelled(thinkingMsgId);
+        return;
+      }
+      markFailed(thinkingMsgId, error, { kind: 'code-review', code, language, requestMessageId: userMsg.id });
+    } finally {
+      endRun(controller);
     }
   };
 
-  const handleApplyChange = (fileName: string, newContent: string) => {
-    setFiles(prev => {
-      const existing = prev.find(f => f.name === fileName || f.name.endsWith('/' + fileName));
+  const notify = (text: string) => {
+    const systemMsg: Message = {
+      id: 'notice-' + Date.now(),
+      role: 'model',
+      text: `> System Notification: ${text}`,
+      timestamp: Date.now()
+    };
+    setMessages(prev => [...prev, systemMsg]);
+  };
+
+  const handleApplyChange = (patches: FilePatch[], messageId?: string) => {
+    if (patches.length === 0) return;
+
+    let next = files;
+    patches.forEach(patch => {
+      const existing = patch.fileId ? next.find(f => f.id === patch.fileId) : undefined;
       if (existing) {
-        return prev.map(f => f.id === existing.id ? { ...f, content: newContent } : f);
+        next = next.map(f => f.id === existing.id ? { ...f, content: applyHunks(f.content, patch.hunks) } : f);
       } else {
         // Create new file
-        return [...prev, {
+        next = [...next, {
           id: Math.random().toString(36).substring(7),
-          name: fileName,
-          content: newContent,
+          name: patch.path,
+          content: applyHunks('', patch.hunks),
           type: 'file'
         }];
       }
     });
 
+    const source = messages.find(m => m.id === messageId);
+    setWorkspaceHistory(prev => recordRevision(prev, {
+      id: 'rev-' + Date.now(),
+      timestamp: Date.now(),
+      label: `Applied ${source?.mode ? `${source.mode} ` : ''}edits to ${patches.length} file(s)`,
+      messageId,
+      mode: source?.mode,
+      changes: diffWorkspaces(files, next)
+    }));
+    setFiles(next);
+    if (messageId) {
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, appliedPatches: patches } : msg));
+    }
+
     // Notify user
-    const systemMsg: Message = {
-      id: 'apply-' + Date.now(),
-      role: 'model',
-      text: `> System Notification: Applied changes to \`${fileName}\`. Base state updated.`,
-      timestamp: Date.now()
-    };
-    setMessages(prev => [...prev, systemMsg]);
+    const hunkCount = patches.reduce((sum, p) => sum + p.hunks.length, 0);
+    notify(`Applied ${hunkCount} hunk(s) to ${patches.map(p => `\`${p.path}\``).join(', ')}. Base state updated.`);
   };
 
+  const handleUndo = () => {
+    const result = undoRevision(workspaceHistory, files);
+    if (!result) return;
+    setFiles(result.files);
+    setWorkspaceHistory(result.history);
+    notify(`Undid "${result.entry.label}" (${result.entry.changes.map(c => `\`${c.fileName}\``).join(', ')}).`);
+  };
+
+  const handleRedo = () => {
+    const result = redoRevision(workspaceHistory, files);
+    if (!result) return;
+    setFiles(result.files);
+    setWorkspaceHistory(result.history);
+    notify(`Redid "${result.entry.label}" (${result.entry.changes.map(c => `\`${c.fileName}\``).join(', ')}).`);
+  };
+
+  // Restoring is itself recorded, so it can be undone like any other change
+  const handleRestoreRevision = (fileId: string, revision: FileRevision) => {
+    const current = files.find(f => f.id === fileId);
+    const recorded = workspaceHistory.past.flatMap(e => e.changes).find(c => c.fileId === fileId);
+    const fileName = current?.name || recorded?.fileName || fileId;
+
+    let next: FileContext[];
+    if (revision.content === null) {
+      next = files.filter(f => f.id !== fileId);
+    } else if (current) {
+      next = files.map(f => f.id === fileId ? { ...f, content: revision.content! } : f);
+    } else {
+      next = [...files, recorded ? fileFromChange(recorded, revision.content) : { id: fileId, name: fileName, content: revision.content, type: 'file' }];
+    }
+
+    const label = revision.timestamp
+      ? `Restored ${fileName} to ${new Date(revision.timestamp).toLocaleString()}`
+      : `Restored ${fileName} to its original version`;
+
+    setWorkspaceHistory(prev => recordRevision(prev, {
+      id: 'rev-' + Date.now(),
+      timestamp: Date.now(),
+      label,
+      changes: diffWorkspaces(files, next)
+    }));
+    setFiles(next);
+    setTimelineFileId(null);
+    notify(`${label}.`);
+  };
+
+  const timelineFile = timelineFileId ? files.find(f => f.id === timelineFileId) : undefined;
+  // Files that applied edits created (rather than imported or uploaded)
+  const createdFileIds = useMemo(() => {
+    const created = new Set(workspaceHistory.past.flatMap(e => e.changes.filter(c => c.before === null).map(c => c.fileId)));
+    return files.filter(f => created.has(f.id)).map(f => f.id);
+  }, [workspaceHistory, files]);
+  const fileIdsWithHistory = useMemo(
+    () => Array.from(new Set(workspaceHistory.past.flatMap(e => e.changes.map(c => c.fileId)))),
+    [workspaceHistory]
+  );
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -484,10 +1207,12 @@ export default function App() {
     }
   };
 
+  const isRunning = agentState.status === 'analyzing' || agentState.status === 'verifying' || agentState.status === 'writing';
+
   const getStatusText = () => {
     switch (agentState.status) {
       case 'analyzing': return 'Reasoning...';
-      case 'verifying': return 'Simulating...';
+      case 'verifying': return 'Verifying...';
       case 'writing': return 'Refining Fix...';
       case 'error': return 'System Error';
       default: return 'Online';
@@ -518,6 +1243,17 @@ export default function App() {
           <FileTree
             files={files}
             onRemove={removeFile}
+            onRemoveMany={removeFiles}
+            pinnedIds={pinnedFileIds}
+            excludedIds={excludedFileIds}
+            includedIds={lastContextIds}
+            onTogglePin={togglePinned}
+            onToggleExclude={toggleExcluded}
+            historyIds={fileIdsWithHistory}
+            onShowHistory={setTimelineFileId}
+            onOpen={openInEditor}
+            onAskAbout={handleAskAbout}
+            onShowInGraph={handleShowInGraph}
             onUpload={handleFileUpload}
             onGithubImport={handleGithubImport}
             isImporting={isImporting}
@@ -547,13 +1283,41 @@ export default function App() {
               </div>
             </div>
 
+            {/* Workspace Switcher */}
+            <div className="ml-4">
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeId={activeWorkspaceId}
+                onSwitch={(id) => handleSwitchWorkspace(id)}
+                onCreate={handleCreateWorkspace}
+                onRename={handleRenameWorkspace}
+                onDuplicate={handleDuplicateWorkspace}
+                onDelete={handleDeleteWorkspace}
+                onExportBundle={handleExportBundle}
+                onExportTranscript={handleExportTranscript}
+                onImportBundle={handleImportBundle}
+              />
+            </div>
+
             {/* Status Badge */}
-            <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/5 ml-4">
+            <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/5">
               <span className={`w-1.5 h-1.5 rounded-full ${getStatusColor()} animate-pulse`}></span>
               <span className="text-[10px] text-gray-400 font-mono uppercase tracking-wide">
                 {getStatusText()}
               </span>
             </div>
+
+            {/* Storage Indicator */}
+            <div
+              className={`flex items-center gap-1.5 text-[10px] font-mono ${storageError ? 'text-neon-rose' : 'text-gray-500'}`}
+              title={storageError || [
+                lastSaved ? `Saved ${new Date(lastSaved).toLocaleTimeString()}` : 'Not saved yet',
+                storageUsage ? `${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)} used` : null
+              ].filter(Boolean).join(' · ')}
+            >
+              <HardDrive size={12} />
+              <span>{storageError ? 'Storage Error' : storageUsage ? formatBytes(storageUsage.usage) : '—'}</span>
+            </div>
           </div>
 
           <div className="flex items-center gap-4">
@@ -569,6 +1333,16 @@ export default function App() {
                 <MessageSquare size={12} />
                 Chat
               </button>
+              <button
+                onClick={() => setViewMode(ViewMode.EDITOR)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all uppercase tracking-wide ${viewMode === ViewMode.EDITOR
+                  ? 'bg-obsidian-700 text-white shadow-sm ring-1 ring-white/10'
+                  : 'text-gray-500 hover:text-gray-300'
+                  }`}
+              >
+                <Code2 size={12} />
+                Code
+              </button>
               <button
                 onClick={() => setViewMode(ViewMode.GRAPH)}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all uppercase tracking-wide ${viewMode === ViewMode.GRAPH
@@ -587,7 +1361,7 @@ export default function App() {
             <div className="flex p-1 bg-black/40 rounded-lg border border-white/5">
               <button
                 onClick={() => handleModeChange(AgentMode.ARCHITECT)}
-                title="Gemini 3 Pro (Thinking)"
+                title={`${getModelInfo(modeModels[AgentMode.ARCHITECT]).label} (Thinking)`}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all uppercase tracking-wide ${agentMode === AgentMode.ARCHITECT
                   ? 'bg-neon-purple/10 text-neon-purple ring-1 ring-neon-purple/30'
                   : 'text-gray-500 hover:text-gray-300'
@@ -598,7 +1372,7 @@ export default function App() {
               </button>
               <button
                 onClick={() => handleModeChange(AgentMode.DEBUG)}
-                title="Gemini 3 Pro (Self-Correction Loop)"
+                title={`${getModelInfo(modeModels[AgentMode.DEBUG]).label} (Self-Correction Loop)`}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all uppercase tracking-wide ${agentMode === AgentMode.DEBUG
                   ? 'bg-neon-amber/10 text-neon-amber ring-1 ring-neon-amber/30'
                   : 'text-gray-500 hover:text-gray-300'
@@ -609,7 +1383,7 @@ export default function App() {
               </button>
               <button
                 onClick={() => handleModeChange(AgentMode.FAST)}
-                title="Gemini 3 Flash (Fast)"
+                title={`${getModelInfo(modeModels[AgentMode.FAST]).label} (Fast)`}
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-[10px] font-medium transition-all uppercase tracking-wide ${agentMode === AgentMode.FAST
                   ? 'bg-neon-cyan/10 text-neon-cyan ring-1 ring-neon-cyan/30'
                   : 'text-gray-500 hover:text-gray-300'
@@ -620,12 +1394,60 @@ export default function App() {
               </button>
             </div>
 
+            {/* Workspace Undo/Redo */}
+            <div className="flex items-center">
+              <button
+                onClick={handleUndo}
+                disabled={workspaceHistory.past.length === 0}
+                className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                title={workspaceHistory.past.length > 0 ? `Undo: ${workspaceHistory.past[workspaceHistory.past.length - 1].label}` : 'Nothing to undo'}
+              >
+                <Undo2 size={16} />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={workspaceHistory.future.length === 0}
+                className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                title={workspaceHistory.future.length > 0 ? `Redo: ${workspaceHistory.future[workspaceHistory.future.length - 1].label}` : 'Nothing to redo'}
+              >
+                <Redo2 size={16} />
+              </button>
+            </div>
+
+            {/* GitHub Sync */}
+            <button
+              onClick={() => setIsGithubModalOpen(true)}
+              className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors"
+              title="GitHub: import or open a pull request"
+            >
+              <Github size={16} />
+            </button>
+
+            {/* API Keys */}
+            <button
+              onClick={() => setIsCredentialSettingsOpen(true)}
+              className={`relative p-2 rounded-lg transition-colors hover:bg-white/5 ${vaultStatus === 'locked' ? 'text-neon-amber' : 'text-gray-500 hover:text-white'}`}
+              title={vaultStatus === 'locked' ? 'API keys: locked, click to unlock' : 'API keys'}
+            >
+              <KeyRound size={16} />
+              {vaultStatus === 'locked' && <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-neon-amber" />}
+            </button>
+
+            {/* Model Settings */}
+            <button
+              onClick={() => setIsModelSettingsOpen(true)}
+              className="p-2 rounded-lg text-gray-500 hover:text-white hover:bg-white/5 transition-colors"
+              title="Models and thinking budgets"
+            >
+              <SlidersHorizontal size={16} />
+            </button>
+
             {/* Settings/Reset */}
             <div className="flex items-center">
               <button
                 onClick={handleResetSession}
                 className="p-2 rounded-lg text-gray-500 hover:text-neon-rose hover:bg-neon-rose/10 transition-colors"
-                title="Clear Session"
+                title="Clear Workspace"
               >
                 <Trash2 size={16} />
               </button>
@@ -644,15 +1466,35 @@ export default function App() {
                     key={msg.id}
                     message={msg}
                     onCodeReview={handleCodeReview}
-                    onApplyChange={handleApplyChange}
+                    onApplyPatches={handleApplyChange}
+                    onPostReview={handlePostReview}
+                    onOpenCitation={handleOpenCitation}
+                    onRetry={handleRetry}
+                    files={files}
                   />
                 ))}
                 <div ref={messagesEndRef} className="h-32 shrink-0" /> {/* Spacer for floating input */}
               </div>
             </main>
+          ) : viewMode === ViewMode.EDITOR ? (
+            <main className="h-full w-full">
+              <CodeEditor
+                files={files}
+                openIds={editorTabs.openIds}
+                activeId={editorTabs.activeId}
+                drafts={editorDrafts}
+                onActivate={(id) => setEditorTabs(prev => ({ ...prev, activeId: id }))}
+                onClose={closeEditorTab}
+                onDraftChange={handleDraftChange}
+                onSave={handleSaveFile}
+                onSelectionAction={handleSelectionAction}
+                isBusy={agentState.status !== 'idle'}
+                reveal={editorReveal}
+              />
+            </main>
           ) : (
             <main className="h-full w-full bg-obsidian-950 relative">
-              <DependencyGraph data={graphData} />
+              <DependencyGraph data={graphData} focusIds={graphFocusIds} onClearFocus={() => setGraphFocusIds([])} />
             </main>
           )}
         </div>
@@ -667,16 +1509,21 @@ export default function App() {
                  focus-within:ring-1 focus-within:shadow-[0_0_40px_-10px_rgba(6,182,212,0.15)]
                  ${agentMode === AgentMode.DEBUG ? 'focus-within:ring-neon-amber/40 border-neon-amber/20' : 'focus-within:ring-neon-cyan/40'}
               `}>
-                {/* Reasoning Budget Badge (Only for thinking modes) */}
-                {agentMode !== AgentMode.FAST && (
-                  <div className="absolute -top-3 left-6 flex items-center gap-1.5 bg-obsidian-950 border border-white/10 px-2 py-0.5 rounded-full text-[9px] text-gray-400 font-mono shadow-sm">
+                {/* Reasoning Budget Badge (Only for models that think) */}
+                {activeModel.supportsThinking && (
+                  <button
+                    onClick={() => setIsModelSettingsOpen(true)}
+                    title={`${activeModel.label} thinking budget (click to adjust)`}
+                    className="absolute -top-3 left-6 flex items-center gap-1.5 bg-obsidian-950 border border-white/10 hover:border-neon-purple/40 px-2 py-0.5 rounded-full text-[9px] text-gray-400 font-mono shadow-sm transition-colors"
+                  >
                     <Brain size={10} className="text-neon-purple" />
-                    <span>BUDGET: {(thinkingBudget / 1024).toFixed(0)}k</span>
-                  </div>
+                    <span>BUDGET: {clampBudget(activeModel, thinkingBudget) === 0 ? 'OFF' : formatTokens(clampBudget(activeModel, thinkingBudget))}</span>
+                  </button>
                 )}
 
                 <div className="relative">
                   <textarea
+                    ref={inputRef}
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={handleKeyDown}
@@ -690,22 +1537,28 @@ export default function App() {
                     style={{ height: 'auto', minHeight: '60px' }}
                   />
                   <div className="absolute right-2 bottom-2">
-                    <button
-                      onClick={handleSend}
-                      disabled={!input.trim() && files.length === 0 || agentState.status !== 'idle'}
-                      className={`p-2 rounded-xl transition-all flex items-center justify-center ${(!input.trim() && files.length === 0) || agentState.status !== 'idle'
-                        ? 'bg-white/5 text-gray-600 cursor-not-allowed'
-                        : agentMode === AgentMode.DEBUG
-                          ? 'bg-gradient-to-br from-amber-400 to-orange-500 text-obsidian-950 hover:brightness-110 shadow-lg shadow-amber-500/20'
-                          : 'bg-gradient-to-br from-cyan-400 to-blue-500 text-obsidian-950 hover:brightness-110 shadow-lg shadow-cyan-500/20'
-                        }`}
-                    >
-                      {agentState.status !== 'idle' ? (
-                        <div className="w-5 h-5 border-2 border-obsidian-950/30 border-t-obsidian-950 rounded-full animate-spin"></div>
-                      ) : (
-                        agentMode === AgentMode.DEBUG ? <Bug size={18} strokeWidth={2.5} /> : <Send size={18} strokeWidth={2.5} />
-                      )}
-                    </button>
+                    {isRunning ? (
+                      <button
+                        onClick={handleStop}
+                        title="Stop generation"
+                        className="p-2 rounded-xl transition-all flex items-center justify-center bg-neon-rose/10 text-neon-rose hover:bg-neon-rose/20 ring-1 ring-neon-rose/30"
+                      >
+                        <Square size={18} strokeWidth={2.5} className="fill-current" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleSend()}
+                        disabled={!input.trim() && files.length === 0 || agentState.status !== 'idle'}
+                        className={`p-2 rounded-xl transition-all flex items-center justify-center ${(!input.trim() && files.length === 0) || agentState.status !== 'idle'
+                          ? 'bg-white/5 text-gray-600 cursor-not-allowed'
+                          : agentMode === AgentMode.DEBUG
+                            ? 'bg-gradient-to-br from-amber-400 to-orange-500 text-obsidian-950 hover:brightness-110 shadow-lg shadow-amber-500/20'
+                            : 'bg-gradient-to-br from-cyan-400 to-blue-500 text-obsidian-950 hover:brightness-110 shadow-lg shadow-cyan-500/20'
+                          }`}
+                      >
+                        {agentMode === AgentMode.DEBUG ? <Bug size={18} strokeWidth={2.5} /> : <Send size={18} strokeWidth={2.5} />}
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -718,10 +1571,62 @@ export default function App() {
                   <div className="h-3 w-[1px] bg-white/10"></div>
                   <span className="text-[10px] text-gray-600 font-mono flex items-center gap-1.5">
                     <span className={files.length > 0 ? "text-neon-emerald" : "text-gray-500"}>{files.length} files loaded</span>
+                    {files.length > 0 && (
+                      <span
+                        className={
+                          workspaceEstimate.exceedsWindow
+                            ? "text-neon-rose"
+                            : workspaceEstimate.promptTokens > workspaceEstimate.contextWindow * WINDOW_WARNING_RATIO
+                              ? "text-neon-amber"
+                              : "text-gray-500"
+                        }
+                        title={`Full workspace: ~${formatTokens(workspaceEstimate.promptTokens)} tokens per request, ~${formatTokens(workspaceEstimate.totalTokens)} for the whole ${agentMode} run (window ${formatTokens(workspaceEstimate.contextWindow)})`}
+                      >
+                        · ~{formatTokens(workspaceEstimate.promptTokens)} tok
+                      </span>
+                    )}
+                  </span>
+                  <div className="h-3 w-[1px] bg-white/10"></div>
+                  <span
+                    className="text-[10px] text-gray-600 font-mono flex items-center gap-1.5"
+                    title={`~${chatHistory.estimatedTokens} tokens of history${chatHistory.omittedTurns > 0 ? `, ${chatHistory.omittedTurns} older turn(s) summarized` : ''}`}
+                  >
+                    <History size={10} />
+                    <span className={chatHistory.includedTurns > 0 ? "text-neon-purple" : "text-gray-500"}>{chatHistory.includedTurns} prior turns</span>
+                    <select
+                      value={historyTokenBudget}
+                      onChange={(e) => setHistoryTokenBudget(Number(e.target.value))}
+                      className="bg-transparent border border-white/10 rounded px-1 text-[9px] text-gray-500 focus:outline-none focus:border-neon-purple/40 cursor-pointer"
+                      title="History token budget"
+                    >
+                      {HISTORY_BUDGET_OPTIONS.map(option => (
+                        <option key={option} value={option} className="bg-obsidian-900">
+                          {option === 0 ? 'off' : `${option / 1024}k`}
+                        </option>
+                      ))}
+                    </select>
                   </span>
                   {agentMode === AgentMode.DEBUG && (
-                    <span className="text-[10px] text-neon-amber font-mono flex items-center gap-1.5 ml-auto animate-pulse">
-                      <PlayCircle size={10} /> Auto-Verification
+                    <span className="text-[10px] text-neon-amber font-mono flex items-center gap-1.5 ml-auto">
+                      <button
+                        onClick={() => setDebugPipeline(prev => ({ ...prev, runTests: !prev.runTests }))}
+                        title="Fixes are always type-checked; optionally also run the affected *.test/*.spec files in a sandboxed worker"
+                        className={`flex items-center gap-1.5 transition-colors ${debugPipeline.runTests ? 'text-neon-amber' : 'text-gray-500 hover:text-gray-300'}`}
+                      >
+                        <PlayCircle size={10} /> Type-check{debugPipeline.runTests ? ' + tests' : ''}
+                      </button>
+                      <select
+                        value={debugPipeline.maxIterations}
+                        onChange={(e) => setDebugPipeline(prev => ({ ...prev, maxIterations: Number(e.target.value) }))}
+                        className="bg-transparent border border-white/10 rounded px-1 text-[9px] text-gray-500 focus:outline-none focus:border-neon-amber/40 cursor-pointer"
+                        title="Maximum attempts (draft plus repairs)"
+                      >
+                        {MAX_ITERATION_OPTIONS.map(option => (
+                          <option key={option} value={option} className="bg-obsidian-900">
+                            {option}x
+                          </option>
+                        ))}
+                      </select>
                     </span>
                   )}
                 </div>
@@ -730,6 +1635,65 @@ export default function App() {
           </div>
         )}
       </div>
+
+      <GithubModal
+        isOpen={isGithubModalOpen}
+        onClose={() => setIsGithubModalOpen(false)}
+        currentFiles={files}
+        createdFileIds={createdFileIds}
+        onImport={handleModalImport}
+        onGeneratePullRequest={handleGeneratePullRequest}
+        onReviewPullRequest={handleReviewPullRequest}
+      />
+
+      {githubTree && (
+        <GithubImportPicker
+          tree={githubTree.tree}
+          progress={importProgress}
+          onImport={handleGithubSelection}
+          onCancel={() => setGithubTree(null)}
+        />
+      )}
+
+      {isCredentialSettingsOpen && (
+        <CredentialSettings
+          vaultStatus={vaultStatus}
+          onVaultChange={() => setVaultStatus(getVaultStatus())}
+          onClose={() => setIsCredentialSettingsOpen(false)}
+        />
+      )}
+
+      {isModelSettingsOpen && (
+        <ModelSettings
+          agentMode={agentMode}
+          modeModels={modeModels}
+          onModeModelChange={handleModeModelChange}
+          thinkingBudget={thinkingBudget}
+          onBudgetChange={setThinkingBudget}
+          debugPipeline={debugPipeline}
+          onDebugPipelineChange={setDebugPipeline}
+          providerSettings={providerSettings}
+          onProviderSettingsChange={handleProviderSettingsChange}
+          onClose={() => setIsModelSettingsOpen(false)}
+        />
+      )}
+
+      {uploadPlan && (
+        <UploadSummary
+          plan={uploadPlan}
+          onConfirm={() => addUploadedFiles(uploadPlan.files)}
+          onCancel={() => setUploadPlan(null)}
+        />
+      )}
+
+      {timelineFileId && (
+        <RevisionTimeline
+          fileName={timelineFile?.name || timelineFileId}
+          revisions={getFileTimeline(workspaceHistory, timelineFileId)}
+          onRestore={(revision) => handleRestoreRevision(timelineFileId, revision)}
+          onClose={() => setTimelineFileId(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,328 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { FileContext } from '../types';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { X, Search, Save, RotateCcw, MessageSquare, Wand2, ChevronUp, ChevronDown, FileCode } from 'lucide-react';
+
+export type SelectionAction = 'explain' | 'refactor';
+
+interface CodeEditorProps {
+  files: FileContext[];
+  openIds: string[];
+  activeId: string | null;
+  drafts: Record<string, string>; // Unsaved edits per file id
+  onActivate: (id: string) => void;
+  onClose: (id: string) => void;
+  onDraftChange: (id: string, content: string | null) => void; // null discards the draft
+  onSave: (id: string, content: string) => void;
+  onSelectionAction: (id: string, startLine: number, endLine: number, action: SelectionAction) => void;
+  isBusy: boolean; // A run is in flight; selection actions would cancel it
+  reveal?: { fileId: string; line: number; key: number } | null; // Jump request, e.g. from a citation
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp',
+  cs: 'csharp', rb: 'ruby', php: 'php', swift: 'swift', json: 'json', md: 'markdown', yml: 'yaml',
+  yaml: 'yaml', toml: 'toml', css: 'css', scss: 'scss', html: 'markup', xml: 'markup', sh: 'bash', sql: 'sql'
+};
+
+export const languageFor = (path: string) => LANGUAGES[path.split('.').pop()?.toLowerCase() || ''] || 'text';
+
+// Highlighting re-tokenizes on every keystroke, so very large files are shown plain
+const MAX_HIGHLIGHT_CHARS = 150_000;
+
+// Every layer shares these metrics so the textarea lines up with the highlighted code
+const LINE_HEIGHT = 20;
+const PADDING = 12;
+const layerStyle: React.CSSProperties = {
+  margin: 0,
+  padding: PADDING,
+  fontFamily: '"JetBrains Mono", monospace',
+  fontSize: 13,
+  lineHeight: `${LINE_HEIGHT}px`,
+  tabSize: 4,
+  whiteSpace: 'pre',
+  background: 'transparent'
+};
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length;
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  files, openIds, activeId, drafts, onActivate, onClose, onDraftChange, onSave, onSelectionAction, isBusy, reveal
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [showFind, setShowFind] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  const tabs = openIds.map(id => files.find(f => f.id === id)).filter((f): f is FileContext => !!f);
+  const file = tabs.find(f => f.id === activeId) || null;
+  const content = file ? (drafts[file.id] ?? file.content) : '';
+  const isDirty = !!file && drafts[file.id] !== undefined && drafts[file.id] !== file.content;
+  const lineCount = content.split('\n').length;
+
+  const matches = useMemo(() => {
+    if (!query) return [];
+    const found: number[] = [];
+    const haystack = content.toLowerCase();
+    const needle = query.toLowerCase();
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+      found.push(i);
+    }
+    return found;
+  }, [content, query]);
+
+  useEffect(() => {
+    setSelection({ start: 0, end: 0 });
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [activeId]);
+
+  useEffect(() => setMatchIndex(0), [query]);
+
+  // Selects the requested line and scrolls it into view
+  useEffect(() => {
+    if (!reveal || !file || reveal.fileId !== file.id || !textareaRef.current) return;
+    const lines = content.split('\n');
+    const line = Math.min(Math.max(reveal.line, 1), lines.length);
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    const end = start + lines[line - 1].length;
+    textareaRef.current.focus({ preventScroll: true });
+    textareaRef.current.setSelectionRange(start, end);
+    setSelection({ start, end });
+    scrollRef.current?.scrollTo({ top: Math.max(0, (line - 5) * LINE_HEIGHT) });
+  }, [reveal?.key, file?.id]);
+
+  const revealMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setMatchIndex(wrapped);
+    const line = lineAt(content, matches[wrapped]);
+    scrollRef.current?.scrollTo({ top: Math.max(0, (line - 5) * LINE_HEIGHT) });
+  };
+
+  const openFind = () => {
+    setShowFind(true);
+    const selected = content.slice(selection.start, selection.end);
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setTimeout(() => findInputRef.current?.select(), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!file) return;
+    if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+      e.preventDefault();
+      if (isDirty) onSave(file.id, content);
+    } else if ((e.metaKey || e.ctrlKey) && e.key === 'f') {
+      e.preventDefault();
+      openFind();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      onDraftChange(file.id, content.slice(0, selectionStart) + '  ' + content.slice(selectionEnd));
+      requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      revealMatch(matchIndex + (e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      setShowFind(false);
+      textareaRef.current?.focus();
+    }
+  };
+
+  const trackSelection = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setSelection({ start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd });
+  };
+
+  const hasSelection = selection.end > selection.start;
+  const startLine = lineAt(content, selection.start);
+  // A selection ending right after a newline does not include the next line
+  const endLine = lineAt(content, content[selection.end - 1] === '\n' ? selection.end - 1 : selection.end);
+
+  const renderMatches = () => {
+    if (matches.length === 0) return content;
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    matches.forEach((start, i) => {
+      parts.push(content.slice(last, start));
+      parts.push(
+        <mark key={start} className={i === matchIndex ? 'bg-neon-amber/60 text-transparent rounded-sm' : 'bg-neon-amber/20 text-transparent rounded-sm'}>
+          {content.slice(start, start + query.length)}
+        </mark>
+      );
+      last = start + query.length;
+    });
+    parts.push(content.slice(last));
+    return parts;
+  };
+
+  if (tabs.length === 0 || !file) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-gray-500 bg-obsidian-950">
+        <FileCode size={28} className="mb-3 text-gray-600" />
+        <p className="mb-2 text-lg font-light text-gray-400">No File Open</p>
+        <p className="text-xs text-gray-600">Click a file in the context tree to open it here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-obsidian-950">
+      {/* Tabs */}
+      <div className="flex items-end gap-0.5 px-2 pt-2 border-b border-white/5 bg-black/20 overflow-x-auto custom-scrollbar shrink-0">
+        {tabs.map(tab => {
+          const tabDirty = drafts[tab.id] !== undefined && drafts[tab.id] !== tab.content;
+          return (
+            <div
+              key={tab.id}
+              onClick={() => onActivate(tab.id)}
+              title={tab.name}
+              className={`group flex items-center gap-2 px-3 py-1.5 rounded-t-md text-[11px] font-mono cursor-pointer border border-b-0 shrink-0 ${tab.id === file.id ? 'bg-obsidian-900 text-gray-200 border-white/10' : 'text-gray-500 hover:text-gray-300 border-transparent'}`}
+            >
+              <span className="truncate max-w-[160px]">{tab.name.split('/').pop()}</span>
+              {tabDirty && <span className="w-1.5 h-1.5 rounded-full bg-neon-amber shrink-0" title="Unsaved changes"></span>}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (tabDirty && !confirm(`Discard unsaved changes to ${tab.name}?`)) return;
+                  onClose(tab.id);
+                }}
+                className="text-gray-600 hover:text-white opacity-60 group-hover:opacity-100"
+              >
+                <X size={11} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-4 py-1.5 border-b border-white/5 bg-obsidian-900 text-[10px] font-mono text-gray-500 shrink-0">
+        <span className="truncate text-gray-400" title={file.name}>{file.name}</span>
+        <span className="shrink-0">{languageFor(file.name)}</span>
+        <span className="shrink-0">
+          {hasSelection ? `L${startLine}-${endLine} selected` : `${lineCount} lines`}
+        </span>
+        <div className="flex-1" />
+        {file.type !== 'image' && (
+          <>
+            <button
+              onClick={() => onSelectionAction(file.id, startLine, endLine, 'explain')}
+              disabled={!hasSelection || isDirty || isBusy}
+              title={isBusy ? 'Wait for the current run to finish' : isDirty ? 'Save first so the agent sees the same lines' : 'Ask the agent to explain the selected lines'}
+              className="flex items-center gap-1 px-2 py-1 rounded text-neon-cyan hover:bg-neon-cyan/10 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <MessageSquare size={11} /> Explain
+            </button>
+            <button
+              onClick={() => onSelectionAction(file.id, startLine, endLine, 'refactor')}
+              disabled={!hasSelection || isDirty || isBusy}
+              title={isBusy ? 'Wait for the current run to finish' : isDirty ? 'Save first so the agent sees the same lines' : 'Ask the agent to refactor the selected lines'}
+              className="flex items-center gap-1 px-2 py-1 rounded text-neon-purple hover:bg-neon-purple/10 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Wand2 size={11} /> Refactor
+            </button>
+            <button onClick={openFind} title="Find (Ctrl+F)" className="p-1 rounded hover:bg-white/5 hover:text-gray-200">
+              <Search size={12} />
+            </button>
+          </>
+        )}
+        {isDirty && (
+          <>
+            <button onClick={() => onDraftChange(file.id, null)} title="Revert unsaved changes" className="p-1 rounded hover:bg-white/5 hover:text-gray-200">
+              <RotateCcw size={12} />
+            </button>
+            <button
+              onClick={() => onSave(file.id, content)}
+              title="Save (Ctrl+S)"
+              className="flex items-center gap-1 px-2 py-1 rounded text-neon-emerald bg-neon-emerald/10 border border-neon-emerald/20 hover:bg-neon-emerald/20"
+            >
+              <Save size={11} /> Save
+            </button>
+          </>
+        )}
+      </div>
+
+      {showFind && (
+        <div className="flex items-center gap-2 px-4 py-1.5 border-b border-white/5 bg-black/30 text-[11px] font-mono shrink-0">
+          <Search size={12} className="text-gray-500" />
+          <input
+            ref={findInputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleFindKeyDown}
+            placeholder="Find in file"
+            className="bg-transparent border-none text-gray-200 focus:outline-none w-64 placeholder-gray-600"
+            autoFocus
+          />
+          <span className="text-gray-500 w-16">{query ? (matches.length ? `${matchIndex + 1}/${matches.length}` : 'No results') : ''}</span>
+          <button onClick={() => revealMatch(matchIndex - 1)} className="p-0.5 text-gray-500 hover:text-white"><ChevronUp size={12} /></button>
+          <button onClick={() => revealMatch(matchIndex + 1)} className="p-0.5 text-gray-500 hover:text-white"><ChevronDown size={12} /></button>
+          <button onClick={() => setShowFind(false)} className="p-0.5 text-gray-500 hover:text-white"><X size={12} /></button>
+        </div>
+      )}
+
+      {/* Body */}
+      {file.type === 'image' ? (
+        <div className="flex-1 overflow-auto flex items-center justify-center p-6">
+          <img src={`data:${file.mimeType || 'image/png'};base64,${file.content}`} alt={file.name} className="max-w-full max-h-full rounded border border-white/10" />
+        </div>
+      ) : (
+        <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar">
+          <div className="flex min-w-max" style={{ minHeight: lineCount * LINE_HEIGHT + PADDING * 2 }}>
+            {/* Gutter */}
+            <div
+              className="sticky left-0 z-10 shrink-0 text-right text-gray-600 bg-obsidian-950 border-r border-white/5 select-none"
+              style={{ ...layerStyle, paddingRight: 10, whiteSpace: 'pre', background: undefined }}
+            >
+              {Array.from({ length: lineCount }, (_, i) => {
+                const line = i + 1;
+                const inSelection = hasSelection && line >= startLine && line <= endLine;
+                return <div key={line} className={inSelection ? 'text-neon-cyan' : ''}>{line}</div>;
+              })}
+            </div>
+
+            {/* Find highlights, syntax colors and the editable textarea, stacked */}
+            <div className="relative flex-1">
+              <pre aria-hidden style={{ ...layerStyle, color: 'transparent', position: 'absolute', inset: 0 }}>{renderMatches()}</pre>
+              {/* The trailing newline keeps an empty last line from collapsing */}
+              {content.length <= MAX_HIGHLIGHT_CHARS ? (
+                <SyntaxHighlighter
+                  // @ts-ignore
+                  style={vscDarkPlus}
+                  language={languageFor(file.name)}
+                  PreTag="div"
+                  customStyle={{ ...layerStyle, position: 'relative', pointerEvents: 'none' }}
+                  codeTagProps={{ style: { fontFamily: 'inherit', fontSize: 'inherit', lineHeight: 'inherit' } }}
+                >
+                  {content + '\n'}
+                </SyntaxHighlighter>
+              ) : (
+                <pre style={{ ...layerStyle, position: 'relative', pointerEvents: 'none', color: '#d4d4d4' }}>{content + '\n'}</pre>
+              )}
+              <textarea
+                ref={textareaRef}
+                value={content}
+                onChange={(e) => onDraftChange(file.id, e.target.value === file.content ? null : e.target.value)}
+                onKeyDown={handleKeyDown}
+                onSelect={trackSelection}
+                spellCheck={false}
+                wrap="off"
+                className="absolute inset-0 w-full h-full resize-none overflow-hidden border-none outline-none text-transparent caret-white selection:bg-neon-cyan/25"
+                style={{ ...layerStyle, color: 'transparent' }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { CredentialName, VaultStatus, MIN_PASSPHRASE_LENGTH, getCredential, createVault, unlockVault, lockVault, updateCredentials, deleteVault } from '../services/credentialService';
+import { validateGeminiApiKey } from '../services/providers/geminiProvider';
+import { validateGithubToken } from '../services/githubService';
+import { KeyRound, X, Lock, Unlock, Trash2, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+
+interface CredentialSettingsProps {
+  vaultStatus: VaultStatus;
+  onVaultChange: () => void; // Called after anything that changes the vault or its contents
+  onClose: () => void;
+}
+
+interface CredentialField {
+  name: CredentialName;
+  label: string;
+  placeholder: string;
+  // Resolves with a short confirmation, rejects with the reason the value is unusable
+  validate: (value: string) => Promise<string>;
+}
+
+const FIELDS: CredentialField[] = [
+  {
+    name: 'geminiApiKey',
+    label: 'Gemini API key',
+    placeholder: 'AIza...',
+    validate: async (value) => {
+      await validateGeminiApiKey(value);
+      return 'Key accepted by Gemini';
+    }
+  },
+  {
+    name: 'githubToken',
+    label: 'GitHub token',
+    placeholder: 'ghp_xxxxxxxxxxxx',
+    validate: async (value) => `Signed in as ${await validateGithubToken(value)}`
+  }
+];
+
+type FieldState = { status: 'idle' | 'checking' | 'ok' | 'error'; message?: string };
+
+const inputClass = "flex-1 bg-obsidian-950 border border-white/10 rounded-md px-2 py-1.5 text-[11px] text-gray-200 font-mono placeholder-gray-600 focus:outline-none focus:border-neon-purple/50";
+const buttonClass = "px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider rounded-md border transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const mask = (value: string) => `••••${value.slice(-4)}`;
+
+export const CredentialSettings: React.FC<CredentialSettingsProps> = ({ vaultStatus, onVaultChange, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [vaultError, setVaultError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [drafts, setDrafts] = useState<Partial<Record<CredentialName, string>>>({});
+  const [fieldStates, setFieldStates] = useState<Partial<Record<CredentialName, FieldState>>>({});
+
+  const runVaultAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setVaultError('');
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      onVaultChange();
+    } catch (e: any) {
+      setVaultError(e.message || 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (passphrase !== confirmation) {
+      setVaultError('The passphrases do not match.');
+      return;
+    }
+    runVaultAction(() => createVault(passphrase));
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete the stored Gemini key and GitHub token? This cannot be undone.')) return;
+    deleteVault();
+    setDrafts({});
+    setFieldStates({});
+    onVaultChange();
+  };
+
+  const setFieldState = (name: CredentialName, state: FieldState) =>
+    setFieldStates(prev => ({ ...prev, [name]: state }));
+
+  const handleSave = async (field: CredentialField) => {
+    const value = drafts[field.name]?.trim();
+    if (!value) return;
+    setFieldState(field.name, { status: 'checking' });
+    try {
+      const message = await field.validate(value);
+      await updateCredentials({ [field.name]: value });
+      setDrafts(prev => ({ ...prev, [field.name]: '' }));
+      setFieldState(field.name, { status: 'ok', message });
+      onVaultChange();
+    } catch (e: any) {
+      setFieldState(field.name, { status: 'error', message: e.message || 'Validation failed.' });
+    }
+  };
+
+  const handleClear = async (field: CredentialField) => {
+    try {
+      await updateCredentials({ [field.name]: '' });
+      setFieldState(field.name, { status: 'idle' });
+      onVaultChange();
+    } catch (e: any) {
+      setFieldState(field.name, { status: 'error', message: e.message || 'Could not remove the value.' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-obsidian-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02] shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center border border-white/10 text-neon-amber">
+              <KeyRound size={16} />
+            </div>
+            <div>
+              <h2 className="text-sm font-bold text-gray-100 uppercase tracking-wider">API Keys</h2>
+              <p className="text-[10px] text-gray-500 font-mono">
+                {vaultStatus === 'unlocked' ? 'Vault unlocked for this session' : vaultStatus === 'locked' ? 'Vault locked' : 'No keys stored'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+          {vaultStatus !== 'unlocked' && (
+            <section className="space-y-3">
+              <p className="text-[11px] text-gray-400 font-mono leading-relaxed">
+                {vaultStatus === 'empty'
+                  ? 'Keys are encrypted in this browser (AES-GCM) with a passphrase you choose. The passphrase is never stored; you enter it once per session.'
+                  : 'Enter your passphrase to use the stored keys in this session.'}
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && vaultStatus === 'locked') runVaultAction(() => unlockVault(passphrase)); }}
+                  placeholder={vaultStatus === 'empty' ? `New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)` : 'Passphrase'}
+                  className={inputClass}
+                  autoFocus
+                />
+                {vaultStatus === 'locked' && (
+                  <button
+                    onClick={() => runVaultAction(() => unlockVault(passphrase))}
+                    disabled={!passphrase || isBusy}
+                    className={`${buttonClass} flex items-center gap-1.5 text-neon-cyan border-neon-cyan/30 hover:bg-neon-cyan/10`}
+                  >
+                    {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Unlock size={12} />} Unlock
+                  </button>
+                )}
+              </div>
+              {vaultStatus === 'empty' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                    placeholder="Repeat passphrase"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={handleCreate}
+                    disabled={!passphrase || isBusy}
+                    className={`${buttonClass} flex items-center gap-1.5 text-neon-cyan border-neon-cyan/30 hover:bg-neon-cyan/10`}
+                  >
+                    {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Lock size={12} />} Create
+                  </button>
+                </div>
+              )}
+              {vaultError && (
+                <p className="flex items-center gap-1.5 text-[10px] text-neon-rose font-mono"><AlertCircle size={12} /> {vaultError}</p>
+              )}
+            </section>
+          )}
+
+          {vaultStatus === 'unlocked' && FIELDS.map(field => {
+            const stored = getCredential(field.name);
+            const state = fieldStates[field.name] || { status: 'idle' };
+            return (
+              <section key={field.name} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{field.label}</h3>
+                  <span className="text-[10px] text-gray-600 font-mono">{stored ? `Saved · ${mask(stored)}` : 'Not set'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="password"
+                    value={drafts[field.name] || ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [field.name]: e.target.value }))}
+                    placeholder={stored ? 'Enter a new value to replace it' : field.placeholder}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => handleSave(field)}
+                    disabled={!drafts[field.name]?.trim() || state.status === 'checking'}
+                    className={`${buttonClass} text-neon-emerald border-neon-emerald/30 hover:bg-neon-emerald/10`}
+                  >
+                    {state.status === 'checking' ? <Loader2 size={12} className="animate-spin" /> : 'Validate & Save'}
+                  </button>
+                  {stored && (
+                    <button
+                      onClick={() => handleClear(field)}
+                      className={`${buttonClass} text-gray-400 border-white/10 hover:text-neon-rose hover:border-neon-rose/30`}
+                      title={`Remove the stored ${field.label}`}
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+                {state.status === 'ok' && (
+                  <p className="flex items-center gap-1.5 text-[10px] text-neon-emerald font-mono"><CheckCircle2 size={12} /> {state.message}</p>
+                )}
+                {state.status === 'error' && (
+                  <p className="flex items-center gap-1.5 text-[10px] text-neon-rose font-mono"><AlertCircle size={12} /> {state.message}</p>
+                )}
+              </section>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        {vaultStatus !== 'empty' && (
+          <div className="px-6 py-3 border-t border-white/5 bg-white/[0.01] flex items-center gap-4 shrink-0">
+            <button onClick={handleDelete} className="flex items-center gap-1.5 text-[10px] text-gray-500 hover:text-neon-rose font-mono transition-colors">
+              <Trash2 size={12} /> {vaultStatus === 'locked' ? 'Forgot passphrase? Delete stored keys' : 'Delete all stored keys'}
+            </button>
+            <span className="flex-1" />
+            {vaultStatus === 'unlocked' && (
+              <button
+                onClick={() => { lockVault(); onVaultChange(); }}
+                className={`${buttonClass} flex items-center gap-1.5 text-gray-300 border-white/10 hover:bg-white/5`}
+              >
+                <Lock size={12} /> Lock
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
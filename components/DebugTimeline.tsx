@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { DebugIteration, ReviewSeverity } from '../types';
+import { SEVERITY_ORDER } from './ReviewFindings';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CheckCircle2, XCircle, Loader2, CircleSlash, ChevronDown, ChevronRight, Brain, Wrench, FileCheck, Gavel } from 'lucide-react';
+
+interface DebugTimelineProps {
+  iterations: DebugIteration[];
+  isLive: boolean; // The run is still going; unfinished steps are in progress rather than stopped
+  markdownComponents?: Record<string, any>; // From the message, so `path:line` citations stay clickable
+}
+
+const severityText: Record<ReviewSeverity, string> = {
+  critical: 'text-neon-rose',
+  major: 'text-neon-amber',
+  minor: 'text-neon-cyan',
+  nit: 'text-gray-400'
+};
+
+const statusLabels: Record<DebugIteration['status'], string> = {
+  generating: 'Generating',
+  checking: 'Type-checking',
+  judging: 'Reviewing',
+  passed: 'Passed',
+  failed: 'Failed'
+};
+
+const StatusIcon: React.FC<{ status: DebugIteration['status']; isLive: boolean }> = ({ status, isLive }) => {
+  if (status === 'passed') return <CheckCircle2 size={14} className="text-neon-emerald" />;
+  if (status === 'failed') return <XCircle size={14} className="text-neon-rose" />;
+  if (!isLive) return <CircleSlash size={14} className="text-gray-500" />;
+  return <Loader2 size={14} className="text-neon-amber animate-spin" />;
+};
+
+const formatDuration = (iteration: DebugIteration) =>
+  iteration.finishedAt ? `${((iteration.finishedAt - iteration.startedAt) / 1000).toFixed(1)}s` : '';
+
+export const DebugTimeline: React.FC<DebugTimelineProps> = ({ iterations, isLive, markdownComponents = {} }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [showThoughts, setShowThoughts] = useState(false);
+
+  // Follow the attempt that is currently running
+  useEffect(() => {
+    if (isLive && iterations.length > 0) setOpenIndex(iterations[iterations.length - 1].index);
+  }, [isLive, iterations.length]);
+
+  const reportComponents = {
+    ...markdownComponents,
+    p: ({ children }: any) => <p className="mb-1 last:mb-0 text-gray-400">{children}</p>,
+    ul: ({ children }: any) => <ul className="list-disc pl-5 space-y-0.5 text-gray-400">{children}</ul>
+  };
+
+  return (
+    <div className="mb-4 rounded-lg border border-neon-amber/20 bg-obsidian-900/60 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-white/5 bg-white/[0.02] text-xs font-mono text-gray-300">
+        <Wrench size={14} className="text-neon-amber" />
+        <span className="font-bold uppercase tracking-wider">Repair Loop</span>
+        <span className="text-gray-500">{iterations.length} attempt(s)</span>
+      </div>
+
+      <ol className="divide-y divide-white/5">
+        {iterations.map(iteration => {
+          const isOpen = openIndex === iteration.index;
+          const inProgress = iteration.status !== 'passed' && iteration.status !== 'failed';
+          return (
+            <li key={iteration.index}>
+              <button
+                onClick={() => setOpenIndex(isOpen ? null : iteration.index)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-white/[0.03] transition-colors"
+              >
+                <StatusIcon status={iteration.status} isLive={isLive} />
+                <span className="text-xs font-bold text-gray-200 font-mono">
+                  {iteration.index + 1}. {iteration.stage === 'draft' ? 'Draft' : 'Repair'}
+                </span>
+                <span className="text-[10px] text-gray-500 font-mono truncate">{iteration.model}</span>
+                <span className="ml-auto text-[10px] font-mono text-gray-500 shrink-0">
+                  {inProgress ? (isLive ? `${statusLabels[iteration.status]}...` : 'Stopped') : statusLabels[iteration.status]}
+                  {formatDuration(iteration) && ` · ${formatDuration(iteration)}`}
+                </span>
+                {isOpen ? <ChevronDown size={12} className="text-gray-500" /> : <ChevronRight size={12} className="text-gray-500" />}
+              </button>
+
+              {isOpen && (
+                <div className="px-4 pb-3 pl-11 space-y-3 text-xs font-mono">
+                  {iteration.checks && (
+                    <div>
+                      <div className="flex items-center gap-1.5 mb-1 text-[10px] uppercase tracking-wider text-gray-500">
+                        <FileCheck size={10} /> Checks · <span className={iteration.checks.verdict === 'Fail' ? 'text-neon-rose' : iteration.checks.verdict === 'Pass' ? 'text-neon-emerald' : 'text-gray-400'}>{iteration.checks.verdict}</span>
+                      </div>
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} components={reportComponents}>{iteration.checks.report}</ReactMarkdown>
+                    </div>
+                  )}
+
+                  {iteration.verdict && (
+                    <div>
+                      <div className="flex items-center gap-1.5 mb-1 text-[10px] uppercase tracking-wider text-gray-500">
+                        <Gavel size={10} /> Verdict · <span className={iteration.verdict.status === 'pass' ? 'text-neon-emerald' : 'text-neon-rose'}>{iteration.verdict.status}</span>
+                        <span className="normal-case tracking-normal">({Math.round(iteration.verdict.confidence * 100)}% confident)</span>
+                      </div>
+                      {iteration.verdict.summary && <p className="text-gray-400 mb-1">{iteration.verdict.summary}</p>}
+                      <ul className="space-y-0.5">
+                        {[...iteration.verdict.issues]
+                          .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+                          .map((issue, i) => (
+                            <li key={i} className="flex gap-2 text-gray-400">
+                              <span className={`uppercase text-[9px] font-bold shrink-0 mt-0.5 ${severityText[issue.severity] || 'text-gray-400'}`}>{issue.severity}</span>
+                              <span>
+                                {issue.path && <span className="text-gray-300">{issue.path}{issue.line ? `:${issue.line}` : ''} </span>}
+                                {issue.description}
+                              </span>
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {iteration.verdictError && (
+                    <p className="text-neon-rose/80">Review failed ({iteration.verdictError}); decided by the checks alone.</p>
+                  )}
+
+                  {iteration.thoughts && (
+                    <div>
+                      <button
+                        onClick={() => setShowThoughts(!showThoughts)}
+                        className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-gray-500 hover:text-neon-purple transition-colors"
+                      >
+                        <Brain size={10} /> Reasoning {showThoughts ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+                      </button>
+                      {showThoughts && (
+                        <p className="mt-1 whitespace-pre-wrap text-gray-500 max-h-64 overflow-y-auto custom-scrollbar">{iteration.thoughts}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {inProgress && isLive && !iteration.checks && (
+                    <p className="text-gray-500 italic">Waiting for the {iteration.stage === 'draft' ? 'draft' : 'repaired answer'}...</p>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -5,9 +5,11 @@ import { Search, Filter, X, Circle } from 'lucide-react';
 
 interface DependencyGraphProps {
   data: DependencyGraphData;
+  focusIds?: string[]; // Nodes highlighted from the file tree
+  onClearFocus?: () => void;
 }
 
-export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data }) => {
+export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data, focusIds = [], onClearFocus }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -143,6 +145,16 @@ export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data }) => {
       return a === b || neighbors.has(`${a}|${b}`);
     };
 
+    // Focused nodes and their direct neighbours stay lit while the rest is dimmed
+    const focus = new Set(focusIds);
+    const isFocused = (id: string) => focus.size === 0 || [...focus].some(f => isConnected(f, id));
+    const applyFocus = () => {
+      node.style("opacity", (o: any) => isFocused(o.id) ? 1 : 0.1);
+      link.style("opacity", (l: any) => focus.size === 0 || focus.has(l.source.id) || focus.has(l.target.id) ? 0.6 : 0.05);
+      circles.attr("stroke", (o: any) => focus.has(o.id) ? "#22d3ee" : "#1a1f2e");
+    };
+    applyFocus();
+
     node.on("mouseover", (event, d: any) => {
       // Dim unrelated
       node.transition().duration(200).style("opacity", (o: any) => isConnected(d.id, o.id) ? 1 : 0.1);
@@ -154,9 +166,9 @@ export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data }) => {
         .style("fill", (o: any) => isConnected(d.id, o.id) ? "#fff" : "#94a3b8");
     })
       .on("mouseout", () => {
-        node.transition().duration(200).style("opacity", 1);
-        link.transition().duration(200).style("opacity", 0.6).attr("stroke", "#353e58");
+        link.attr("stroke", "#353e58");
         labels.style("font-weight", "normal").style("fill", "#94a3b8");
+        applyFocus();
       });
 
     // --- Ticks ---
@@ -176,7 +188,7 @@ export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data }) => {
     // @ts-ignore
     svg.call(zoom);
 
-  }, [graphData]);
+  }, [graphData, focusIds]);
 
   // Drag Helper
   const drag = (simulation: any) => {
@@ -235,6 +247,14 @@ export const DependencyGraph: React.FC<DependencyGraphProps> = ({ data }) => {
           {searchTerm && <button onClick={() => setSearchTerm('')}><X size={14} className="text-gray-500 hover:text-gray-300" /></button>}
         </div>
 
+        {focusIds.length > 0 && (
+          <div className="pointer-events-auto glass-panel rounded-lg shadow-xl px-3 py-2 flex items-center gap-2 w-64 text-[10px] text-neon-cyan font-mono">
+            <Circle size={8} className="fill-current shrink-0" />
+            <span className="flex-1 truncate">Focused on {focusIds.length === 1 ? focusIds[0] : `${focusIds.length} files`}</span>
+            {onClearFocus && <button onClick={onClearFocus}><X size={12} className="text-gray-500 hover:text-gray-300" /></button>}
+          </div>
+        )}
+
         <div className="pointer-events-auto glass-panel rounded-lg shadow-xl p-3 flex flex-col gap-2 w-64">
           <div className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest px-1">
             <Filter size={10} />
@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { FilePatch } from '../types';
+import { diffHunkRows, newLineOffset, DiffRow } from '../services/patchService';
+import { FileDiff, Check, X, AlertTriangle, FilePlus, CheckCircle2 } from 'lucide-react';
+
+interface DiffReviewProps {
+  patches: FilePatch[];
+  applied?: FilePatch[]; // Stored on the message once applied; the view is then frozen on these
+  onApply: (patches: FilePatch[]) => void;
+}
+
+const rowStyles: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: 'text-gray-500', right: 'text-gray-500' },
+  removed: { left: 'bg-neon-rose/10 text-neon-rose/90', right: 'bg-white/[0.02]' },
+  added: { left: 'bg-white/[0.02]', right: 'bg-neon-emerald/10 text-neon-emerald/90' },
+  changed: { left: 'bg-neon-rose/10 text-neon-rose/90', right: 'bg-neon-emerald/10 text-neon-emerald/90' }
+};
+
+const DiffCell: React.FC<{ cell?: { line: number; text: string }; className: string }> = ({ cell, className }) => (
+  <div className={`flex min-w-0 ${className}`}>
+    <span className="w-10 shrink-0 text-right pr-2 text-gray-600 select-none">{cell?.line ?? ''}</span>
+    <pre className="flex-1 whitespace-pre-wrap break-all">{cell?.text ?? ''}</pre>
+  </div>
+);
+
+export const DiffReview: React.FC<DiffReviewProps> = ({ patches, applied: appliedPatches, onApply }) => {
+  // Every locatable hunk starts accepted; the user opts out per hunk
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(
+    patches.flatMap(p => p.hunks.filter(h => !h.conflict).map(h => h.id))
+  ));
+  // Once applied, the workspace no longer matches the originals, so show what was applied instead
+  const applied = appliedPatches !== undefined;
+  const shownPatches = appliedPatches || patches;
+
+  const toggleHunk = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedPatches = useMemo(() => patches
+    .map(p => ({ ...p, hunks: p.hunks.filter(h => accepted.has(h.id) && !h.conflict) }))
+    .filter(p => p.hunks.length > 0), [patches, accepted]);
+
+  const selectedCount = selectedPatches.reduce((sum, p) => sum + p.hunks.length, 0);
+
+  return (
+    <div className="mt-4 rounded-lg border border-white/10 bg-obsidian-900/60 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5 bg-white/[0.02]">
+        <div className="flex items-center gap-2 text-xs font-mono text-gray-300">
+          <FileDiff size={14} className="text-neon-cyan" />
+          <span className="font-bold uppercase tracking-wider">Proposed Changes</span>
+          <span className="text-gray-500">{shownPatches.length} file(s)</span>
+        </div>
+        {applied ? (
+          <span className="flex items-center gap-1.5 text-[10px] text-neon-emerald font-mono uppercase">
+            <CheckCircle2 size={12} /> Applied
+          </span>
+        ) : (
+          <button
+            onClick={() => onApply(selectedPatches)}
+            disabled={selectedCount === 0}
+            className="flex items-center gap-1.5 text-[10px] text-neon-cyan hover:text-white bg-neon-cyan/10 hover:bg-neon-cyan/20 px-2 py-1 rounded border border-neon-cyan/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Check size={12} />
+            <span>Apply {selectedCount} hunk(s)</span>
+          </button>
+        )}
+      </div>
+
+      {shownPatches.map(patch => (
+        <div key={patch.path} className="border-b border-white/5 last:border-b-0">
+          <div className="flex items-center gap-2 px-4 py-1.5 bg-black/20 text-[11px] font-mono text-gray-400">
+            {patch.isNewFile ? <FilePlus size={12} className="text-neon-emerald" /> : <FileDiff size={12} className="text-gray-500" />}
+            <span className="truncate" title={patch.path}>{patch.path}</span>
+            {patch.isNewFile && <span className="text-[9px] text-neon-emerald uppercase tracking-wider">new file</span>}
+          </div>
+
+          {patch.hunks.map(hunk => {
+            const isAccepted = accepted.has(hunk.id) && !hunk.conflict;
+            // Right-hand numbers count the earlier hunks that are (or will be) applied
+            const lineOffset = newLineOffset(hunk, applied ? patch.hunks : patch.hunks.filter(h => accepted.has(h.id)));
+            return (
+              <div key={hunk.id} className={`border-t border-white/5 ${isAccepted || applied ? '' : 'opacity-50'}`}>
+                <div className="flex items-center justify-between px-4 py-1 text-[10px] font-mono text-gray-500">
+                  <span>@@ line {hunk.oldStart + 1} · -{hunk.oldLines.length} +{hunk.newLines.length}</span>
+                  {hunk.conflict ? (
+                    <span className="flex items-center gap-1 text-neon-amber" title={hunk.conflictReason}>
+                      <AlertTriangle size={10} /> Conflict
+                    </span>
+                  ) : !applied && (
+                    <button
+                      onClick={() => toggleHunk(hunk.id)}
+                      className={`flex items-center gap-1 px-1.5 py-0.5 rounded border transition-colors ${isAccepted
+                        ? 'text-neon-emerald border-neon-emerald/20 bg-neon-emerald/10'
+                        : 'text-gray-500 border-white/10 hover:text-gray-300'
+                        }`}
+                    >
+                      {isAccepted ? <Check size={10} /> : <X size={10} />}
+                      {isAccepted ? 'Accepted' : 'Rejected'}
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 text-[11px] font-mono leading-5 max-h-80 overflow-y-auto custom-scrollbar">
+                  {diffHunkRows(hunk, lineOffset).map((row, index) => (
+                    <React.Fragment key={index}>
+                      <DiffCell cell={row.left} className={`border-r border-white/5 ${rowStyles[row.type].left}`} />
+                      <DiffCell cell={row.right} className={rowStyles[row.type].right} />
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
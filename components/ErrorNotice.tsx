@@ -0,0 +1,79 @@
+import React from 'react';
+import { ErrorKind, MessageError } from '../types';
+import { Gauge, KeyRound, WifiOff, ShieldAlert, FileWarning, Square, AlertTriangle, RotateCcw } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: MessageError;
+  onRetry?: () => void; // Omitted when there is nothing to replay
+}
+
+const KIND_STYLES: Record<ErrorKind, { icon: React.ElementType; title: string; hint: string; color: string }> = {
+  quota: {
+    icon: Gauge,
+    title: 'Rate limited',
+    hint: 'Retries were exhausted. Wait a minute, or switch to FAST mode, which has higher limits.',
+    color: 'text-neon-amber border-neon-amber/30 bg-neon-amber/5'
+  },
+  auth: {
+    icon: KeyRound,
+    title: 'Not authorized',
+    hint: 'Check the key or token under API Keys (the key icon in the header), then retry.',
+    color: 'text-neon-rose border-neon-rose/30 bg-neon-rose/5'
+  },
+  network: {
+    icon: WifiOff,
+    title: 'Connection problem',
+    hint: 'The service could not be reached. Check your connection or the endpoint URL.',
+    color: 'text-neon-amber border-neon-amber/30 bg-neon-amber/5'
+  },
+  safety: {
+    icon: ShieldAlert,
+    title: 'Blocked by safety filters',
+    hint: 'Retrying the same request will be blocked again. Rephrase it or remove the flagged content.',
+    color: 'text-neon-purple border-neon-purple/30 bg-neon-purple/5'
+  },
+  'invalid-input': {
+    icon: FileWarning,
+    title: 'Request rejected',
+    hint: 'The request was not accepted as sent. Check the URL or reduce the context, then retry.',
+    color: 'text-neon-rose border-neon-rose/30 bg-neon-rose/5'
+  },
+  cancelled: {
+    icon: Square,
+    title: 'Cancelled',
+    hint: 'The run was stopped before it finished.',
+    color: 'text-gray-400 border-white/10 bg-white/[0.02]'
+  },
+  unknown: {
+    icon: AlertTriangle,
+    title: 'Request failed',
+    hint: 'An unexpected error occurred.',
+    color: 'text-neon-rose border-neon-rose/30 bg-neon-rose/5'
+  }
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry }) => {
+  const { icon: Icon, title, hint, color } = KIND_STYLES[error.kind];
+
+  return (
+    <div className={`mt-3 rounded-lg border px-4 py-3 ${color}`}>
+      <div className="flex items-start gap-3">
+        <Icon size={16} className="shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-xs font-bold font-mono uppercase tracking-wider">{title}</p>
+          <p className="text-[12px] text-gray-300 break-words">{error.message}</p>
+          <p className="text-[11px] text-gray-500">{hint}</p>
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1.5 shrink-0 px-3 py-1.5 text-[10px] font-bold font-mono uppercase tracking-wider rounded-md border border-current hover:bg-white/5 transition-colors"
+            title={error.retryable ? 'Run the request again' : 'Run the request again once the cause is fixed'}
+          >
+            <RotateCcw size={12} /> Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
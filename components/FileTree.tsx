@@ -1,29 +1,192 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { FileContext } from '../types';
-import { FileCode, FileImage, Trash2, Upload, AlertCircle, Activity, MessageSquareWarning, Github, X, FolderInput, File, Layers } from 'lucide-react';
+import { estimateFileTokens, formatTokens } from '../services/tokenService';
+import { FileCode, FileImage, FileText, FileCog, FileTerminal, FileType, FileBraces, FileSpreadsheet, Folder, FolderOpen, ChevronDown, ChevronRight, Search, MessageSquare, Network, Trash2, Upload, AlertCircle, Activity, MessageSquareWarning, Github, X, FolderInput, File, Layers, Pin, EyeOff, History } from 'lucide-react';
 
 interface FileTreeProps {
   files: FileContext[];
   onRemove: (id: string) => void;
+  onRemoveMany?: (ids: string[]) => void;
+  pinnedIds?: string[];
+  excludedIds?: string[];
+  includedIds?: string[]; // Files sent with the most recent request
+  onTogglePin?: (id: string) => void;
+  onToggleExclude?: (id: string) => void;
+  historyIds?: string[]; // Files with recorded revisions
+  onShowHistory?: (id: string) => void;
+  onOpen?: (id: string) => void;
+  onAskAbout?: (paths: string[]) => void; // Folder paths end with '/'
+  onShowInGraph?: (ids: string[]) => void;
   onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onGithubImport: (url: string) => Promise<void>;
   isImporting?: boolean;
 }
 
-export const FileTree: React.FC<FileTreeProps> = ({ files, onRemove, onUpload, onGithubImport, isImporting }) => {
+interface FolderNode {
+  name: string;
+  path: string;
+  folders: FolderNode[];
+  files: FileContext[];
+  fileIds: string[]; // Every file below this folder
+}
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  label: string; // File path, or folder path with a trailing slash
+  ids: string[];
+}
+
+// File names are full paths, so the folder structure comes from splitting them
+const buildFolderTree = (files: FileContext[]): FolderNode => {
+  const root: FolderNode = { name: '', path: '', folders: [], files: [], fileIds: [] };
+  const byPath = new Map<string, FolderNode>([['', root]]);
+
+  [...files].sort((a, b) => a.name.localeCompare(b.name)).forEach(file => {
+    const segments = file.name.split('/').filter(Boolean);
+    let parent = root;
+    root.fileIds.push(file.id);
+    segments.slice(0, -1).forEach((segment, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      let folder = byPath.get(path);
+      if (!folder) {
+        folder = { name: segment, path, folders: [], files: [], fileIds: [] };
+        byPath.set(path, folder);
+        parent.folders.push(folder);
+      }
+      folder.fileIds.push(file.id);
+      parent = folder;
+    });
+    parent.files.push(file);
+  });
+
+  return root;
+};
+
+const baseName = (path: string) => path.split('/').filter(Boolean).pop() || path;
+
+export const FileTree: React.FC<FileTreeProps> = ({
+  files, onRemove, onRemoveMany, pinnedIds = [], excludedIds = [], includedIds = [], onTogglePin, onToggleExclude, historyIds = [], onShowHistory, onOpen, onAskAbout, onShowInGraph, onUpload, onGithubImport, isImporting
+}) => {
   const [showGithubInput, setShowGithubInput] = useState(false);
   const [githubUrl, setGithubUrl] = useState('');
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const lastClickedRef = useRef<string | null>(null);
+  const totalTokens = useMemo(() => files.reduce((sum, f) => sum + estimateFileTokens(f), 0), [files]);
+
+  const visibleFiles = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return term ? files.filter(f => f.name.toLowerCase().includes(term)) : files;
+  }, [files, filter]);
+  const root = useMemo(() => buildFolderTree(visibleFiles), [visibleFiles]);
+  const isFiltering = filter.trim().length > 0;
 
-  const getIcon = (type: FileContext['type']) => {
-    switch (type) {
+  // Drop selections for files that were removed
+  useEffect(() => {
+    const ids = new Set(files.map(f => f.id));
+    setSelected(prev => {
+      const next = new Set([...prev].filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [files]);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = () => setContextMenu(null);
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('click', close);
+    window.addEventListener('keydown', onKey);
+    return () => {
+      window.removeEventListener('click', close);
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [contextMenu]);
+
+  const getIcon = (file: FileContext) => {
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    switch (file.type) {
       case 'image': return <FileImage size={14} className="text-neon-purple shrink-0" />;
       case 'log': return <AlertCircle size={14} className="text-neon-rose shrink-0" />;
-      case 'metric': return <Activity size={14} className="text-neon-amber shrink-0" />;
+      case 'metric':
+        if (ext === 'json') return <FileBraces size={14} className="text-neon-amber shrink-0" />;
+        if (ext === 'csv') return <FileSpreadsheet size={14} className="text-neon-amber shrink-0" />;
+        return <Activity size={14} className="text-neon-amber shrink-0" />;
       case 'issue': return <MessageSquareWarning size={14} className="text-pink-400 shrink-0" />;
+    }
+    switch (ext) {
+      case 'md': case 'mdx': case 'txt': case 'rst': return <FileText size={14} className="text-gray-400 shrink-0" />;
+      case 'yml': case 'yaml': case 'toml': case 'ini': case 'env': case 'lock': return <FileCog size={14} className="text-neon-emerald shrink-0" />;
+      case 'sh': case 'bash': case 'zsh': case 'ps1': return <FileTerminal size={14} className="text-neon-emerald shrink-0" />;
+      case 'css': case 'scss': case 'less': case 'html': return <FileType size={14} className="text-pink-400 shrink-0" />;
       default: return <FileCode size={14} className="text-neon-cyan shrink-0" />;
     }
   };
 
+  // File ids in on-screen order, for shift-click ranges
+  const orderedIds = useMemo(() => {
+    const ids: string[] = [];
+    const walk = (folder: FolderNode) => {
+      if (folder.path && !isFiltering && collapsed.has(folder.path)) return;
+      folder.folders.forEach(walk);
+      folder.files.forEach(f => ids.push(f.id));
+    };
+    walk(root);
+    return ids;
+  }, [root, collapsed, isFiltering]);
+
+  const setIdsSelected = (ids: string[], select: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => select ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const handleFileClick = (e: React.MouseEvent, id: string) => {
+    if (e.shiftKey && lastClickedRef.current) {
+      const from = orderedIds.indexOf(lastClickedRef.current);
+      const to = orderedIds.indexOf(id);
+      if (from !== -1 && to !== -1) {
+        setIdsSelected(orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1), true);
+        return;
+      }
+    }
+    if (e.metaKey || e.ctrlKey || selected.size > 0) {
+      setIdsSelected([id], !selected.has(id));
+    } else {
+      onOpen?.(id);
+    }
+    lastClickedRef.current = id;
+  };
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const removeIds = (ids: string[]) => {
+    if (onRemoveMany) onRemoveMany(ids);
+    else ids.forEach(onRemove);
+  };
+
+  const removeFolder = (folder: FolderNode) => {
+    if (!confirm(`Remove ${folder.fileIds.length} file(s) under ${folder.path}/ from the context?`)) return;
+    removeIds(folder.fileIds);
+  };
+
+  const openContextMenu = (e: React.MouseEvent, label: string, ids: string[]) => {
+    if (!onAskAbout && !onShowInGraph) return;
+    e.preventDefault();
+    setContextMenu({ x: e.clientX, y: e.clientY, label, ids });
+  };
+
   const handleGithubSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!githubUrl.trim()) return;
@@ -32,6 +195,128 @@ export const FileTree: React.FC<FileTreeProps> = ({ files, onRemove, onUpload, o
     setGithubUrl('');
   };
 
+  const renderFile = (file: FileContext, depth: number) => {
+    const isPinned = pinnedIds.includes(file.id);
+    const isExcluded = excludedIds.includes(file.id);
+    const wasIncluded = includedIds.includes(file.id);
+    const isSelected = selected.has(file.id);
+
+    return (
+      <div
+        key={file.id}
+        onClick={(e) => handleFileClick(e, file.id)}
+        onContextMenu={(e) => openContextMenu(e, file.name, [file.id])}
+        style={{ paddingLeft: depth * 12 + 8 }}
+        className={`group flex items-center justify-between pr-2 py-1.5 rounded-md border transition-all ${onOpen ? 'cursor-pointer' : 'cursor-default'} text-gray-400 hover:text-gray-200 ${isSelected ? 'bg-neon-cyan/5 border-neon-cyan/20' : 'border-transparent hover:bg-white/5 hover:border-white/5'} ${isExcluded ? 'opacity-40' : ''}`}
+      >
+        <div className="flex items-center gap-2 overflow-hidden">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onClick={(e) => e.stopPropagation()}
+            onChange={() => { setIdsSelected([file.id], !isSelected); lastClickedRef.current = file.id; }}
+            className={`accent-cyan-400 shrink-0 ${selected.size > 0 ? '' : 'hidden group-hover:block'}`}
+          />
+          <div className="opacity-70 group-hover:opacity-100 transition-opacity">
+            {getIcon(file)}
+          </div>
+          <span className={`text-xs truncate font-mono tracking-tight ${isExcluded ? 'line-through' : ''}`} title={file.name}>
+            {isFiltering ? file.name : baseName(file.name)}
+          </span>
+          <span className="text-[9px] text-gray-600 font-mono shrink-0" title="Estimated tokens">
+            {formatTokens(estimateFileTokens(file))}
+          </span>
+          {wasIncluded && (
+            <span className="w-1.5 h-1.5 rounded-full bg-neon-emerald shrink-0" title="Sent with the last request"></span>
+          )}
+        </div>
+        <div className="flex items-center shrink-0" onClick={(e) => e.stopPropagation()}>
+          {onShowHistory && historyIds.includes(file.id) && (
+            <button
+              onClick={() => onShowHistory(file.id)}
+              title="Revision history"
+              className="p-1 rounded hover:bg-white/5 transition-all text-gray-500 hover:text-neon-purple"
+            >
+              <History size={12} />
+            </button>
+          )}
+          {onTogglePin && (
+            <button
+              onClick={() => onTogglePin(file.id)}
+              title={isPinned ? "Unpin from context" : "Always include in context"}
+              className={`p-1 rounded hover:bg-white/5 transition-all ${isPinned ? 'text-neon-cyan' : 'text-gray-600 hover:text-neon-cyan opacity-0 group-hover:opacity-100'}`}
+            >
+              <Pin size={12} />
+            </button>
+          )}
+          {onToggleExclude && (
+            <button
+              onClick={() => onToggleExclude(file.id)}
+              title={isExcluded ? "Allow in context" : "Never include in context"}
+              className={`p-1 rounded hover:bg-white/5 transition-all ${isExcluded ? 'text-neon-amber' : 'text-gray-600 hover:text-neon-amber opacity-0 group-hover:opacity-100'}`}
+            >
+              <EyeOff size={12} />
+            </button>
+          )}
+          <button
+            onClick={() => onRemove(file.id)}
+            className="text-gray-600 hover:text-neon-rose opacity-0 group-hover:opacity-100 transition-all p-1 hover:bg-white/5 rounded"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: FolderNode, depth: number): React.ReactNode => {
+    // Filtering shows every match, so folders stay open while a filter is set
+    const isOpen = isFiltering || !collapsed.has(folder.path);
+    const count = folder.fileIds.filter(id => selected.has(id)).length;
+    const allSelected = count === folder.fileIds.length;
+
+    return (
+      <div key={folder.path}>
+        <div
+          onClick={() => toggleFolder(folder.path)}
+          onContextMenu={(e) => openContextMenu(e, `${folder.path}/`, folder.fileIds)}
+          style={{ paddingLeft: depth * 12 + 8 }}
+          className="group flex items-center justify-between pr-2 py-1.5 rounded-md border border-transparent hover:bg-white/5 hover:border-white/5 transition-all cursor-pointer text-gray-400 hover:text-gray-200"
+        >
+          <div className="flex items-center gap-2 overflow-hidden">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              ref={el => { if (el) el.indeterminate = count > 0 && !allSelected; }}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => setIdsSelected(folder.fileIds, !allSelected)}
+              className={`accent-cyan-400 shrink-0 ${selected.size > 0 ? '' : 'hidden group-hover:block'}`}
+            />
+            {isOpen ? <ChevronDown size={12} className="text-gray-600 shrink-0" /> : <ChevronRight size={12} className="text-gray-600 shrink-0" />}
+            {isOpen ? <FolderOpen size={14} className="text-neon-purple/80 shrink-0" /> : <Folder size={14} className="text-neon-purple/80 shrink-0" />}
+            <span className="text-xs truncate font-mono tracking-tight" title={folder.path}>{folder.name}</span>
+            <span className="text-[9px] text-gray-600 font-mono shrink-0">{folder.fileIds.length}</span>
+          </div>
+          <button
+            onClick={(e) => { e.stopPropagation(); removeFolder(folder); }}
+            title="Remove folder"
+            className="text-gray-600 hover:text-neon-rose opacity-0 group-hover:opacity-100 transition-all p-1 hover:bg-white/5 rounded shrink-0"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+        {isOpen && (
+          <>
+            {folder.folders.map(child => renderFolder(child, depth + 1))}
+            {folder.files.map(file => renderFile(file, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const selectedIds = [...selected];
+
   return (
     <div className="flex flex-col h-full w-full">
       {/* Header */}
@@ -40,12 +325,58 @@ export const FileTree: React.FC<FileTreeProps> = ({ files, onRemove, onUpload, o
           <Layers size={16} />
           <span className="text-xs font-bold uppercase tracking-widest">Context</span>
         </div>
-        <span className="px-2 py-0.5 rounded bg-black/40 border border-white/10 text-[10px] font-mono text-gray-500">
+        <span
+          className="px-2 py-0.5 rounded bg-black/40 border border-white/10 text-[10px] font-mono text-gray-500"
+          title={`~${formatTokens(totalTokens)} tokens`}
+        >
           {files.length}
         </span>
       </div>
 
-      {/* File List */}
+      {files.length > 0 && (
+        <div className="px-2 pt-2">
+          <div className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-black/30 border border-white/5 focus-within:border-neon-cyan/30">
+            <Search size={12} className="text-gray-600 shrink-0" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by name..."
+              className="bg-transparent border-none text-xs text-gray-200 focus:outline-none w-full placeholder-gray-600 font-mono"
+            />
+            {filter && <button onClick={() => setFilter('')}><X size={12} className="text-gray-500 hover:text-gray-300" /></button>}
+          </div>
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {selected.size > 0 && (
+        <div className="mx-2 mt-2 flex items-center gap-1 px-2 py-1.5 rounded-md bg-neon-cyan/5 border border-neon-cyan/20 text-[10px] font-mono animate-fade-in">
+          <span className="flex-1 text-neon-cyan">{selected.size} selected</span>
+          {onAskAbout && (
+            <button onClick={() => onAskAbout(files.filter(f => selected.has(f.id)).map(f => f.name))} title="Ask about selection" className="p-1 rounded text-gray-400 hover:text-neon-cyan hover:bg-white/5">
+              <MessageSquare size={12} />
+            </button>
+          )}
+          {onShowInGraph && (
+            <button onClick={() => onShowInGraph(selectedIds)} title="Show in graph" className="p-1 rounded text-gray-400 hover:text-neon-purple hover:bg-white/5">
+              <Network size={12} />
+            </button>
+          )}
+          <button
+            onClick={() => { if (confirm(`Remove ${selected.size} file(s) from the context?`)) removeIds(selectedIds); }}
+            title="Remove selected"
+            className="p-1 rounded text-gray-400 hover:text-neon-rose hover:bg-white/5"
+          >
+            <Trash2 size={12} />
+          </button>
+          <button onClick={() => setSelected(new Set())} title="Clear selection" className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/5">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {/* File Tree */}
       <div className="flex-1 overflow-y-auto p-2 custom-scrollbar">
         {files.length === 0 ? (
           <div className="flex flex-col items-center justify-center mt-20 opacity-30 gap-4 text-center px-4">
@@ -56,30 +387,44 @@ export const FileTree: React.FC<FileTreeProps> = ({ files, onRemove, onUpload, o
               No Context Loaded
             </p>
           </div>
+        ) : visibleFiles.length === 0 ? (
+          <p className="mt-6 text-center text-[10px] text-gray-600 font-mono">No files match "{filter}"</p>
         ) : (
           <div className="space-y-0.5">
-            {files.map((file) => (
-              <div key={file.id} className="group flex items-center justify-between px-3 py-2 rounded-md hover:bg-white/5 hover:border-white/5 border border-transparent transition-all cursor-default text-gray-400 hover:text-gray-200">
-                <div className="flex items-center gap-2.5 overflow-hidden">
-                  <div className="opacity-70 group-hover:opacity-100 transition-opacity">
-                    {getIcon(file.type)}
-                  </div>
-                  <span className="text-xs truncate font-mono tracking-tight" title={file.name}>
-                    {file.name}
-                  </span>
-                </div>
-                <button
-                  onClick={() => onRemove(file.id)}
-                  className="text-gray-600 hover:text-neon-rose opacity-0 group-hover:opacity-100 transition-all p-1 hover:bg-white/5 rounded"
-                >
-                  <Trash2 size={12} />
-                </button>
-              </div>
-            ))}
+            {root.folders.map(folder => renderFolder(folder, 0))}
+            {root.files.map(file => renderFile(file, 0))}
           </div>
         )}
       </div>
 
+      {contextMenu && (
+        <div
+          className="fixed z-[120] min-w-[180px] py-1 rounded-lg bg-obsidian-900 border border-white/10 shadow-2xl text-xs animate-fade-in"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="px-3 py-1 text-[9px] text-gray-600 font-mono truncate max-w-[240px]">{contextMenu.label}</div>
+          {onAskAbout && (
+            <button
+              onClick={() => { onAskAbout([contextMenu.label]); setContextMenu(null); }}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:bg-white/5 hover:text-white text-left"
+            >
+              <MessageSquare size={12} className="text-neon-cyan" />
+              Ask about this {contextMenu.label.endsWith('/') ? 'folder' : 'file'}
+            </button>
+          )}
+          {onShowInGraph && (
+            <button
+              onClick={() => { onShowInGraph(contextMenu.ids); setContextMenu(null); }}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:bg-white/5 hover:text-white text-left"
+            >
+              <Network size={12} className="text-neon-purple" />
+              Show in graph
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Actions */}
       <div className="p-3 border-t border-white/5 bg-black/20 backdrop-blur-md">
         {showGithubInput ? (
@@ -94,7 +439,7 @@ export const FileTree: React.FC<FileTreeProps> = ({ files, onRemove, onUpload, o
               type="text"
               value={githubUrl}
               onChange={(e) => setGithubUrl(e.target.value)}
-              placeholder="owner/repo"
+              placeholder="repo, tree, issue or PR URL"
               className="w-full bg-black/50 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-neon-cyan/50 focus:ring-1 focus:ring-neon-cyan/20 mb-2 font-mono"
               autoFocus
             />
@@ -0,0 +1,239 @@
+import React, { useState, useMemo } from 'react';
+import { GithubRepoTree, GithubTreeEntry, ImportFilters, ImportProgress, DEFAULT_IMPORT_FILTERS, filterTreeEntries, rankImportEntries } from '../services/githubService';
+import { parsePatterns } from '../services/globService';
+import { formatBytes } from '../services/storageService';
+import { formatTokens } from '../services/tokenService';
+import { Github, X, ChevronDown, ChevronRight, Folder, FileCode, Filter, Download } from 'lucide-react';
+
+interface GithubImportPickerProps {
+  tree: GithubRepoTree;
+  progress: ImportProgress | null; // Set while the selected files download
+  onImport: (entries: GithubTreeEntry[]) => void;
+  onCancel: () => void;
+}
+
+interface DirNode {
+  name: string;
+  path: string;
+  dirs: DirNode[];
+  files: GithubTreeEntry[];
+  filePaths: string[]; // Every file below this directory
+}
+
+const buildDirTree = (entries: GithubTreeEntry[]): DirNode => {
+  const root: DirNode = { name: '', path: '', dirs: [], files: [], filePaths: [] };
+  const byPath = new Map<string, DirNode>([['', root]]);
+
+  [...entries].sort((a, b) => a.path.localeCompare(b.path)).forEach(entry => {
+    const segments = entry.path.split('/');
+    let parent = root;
+    root.filePaths.push(entry.path);
+    segments.slice(0, -1).forEach((segment, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      let dir = byPath.get(path);
+      if (!dir) {
+        dir = { name: segment, path, dirs: [], files: [], filePaths: [] };
+        byPath.set(path, dir);
+        parent.dirs.push(dir);
+      }
+      dir.filePaths.push(entry.path);
+      parent = dir;
+    });
+    parent.files.push(entry);
+  });
+
+  return root;
+};
+
+const inputClass = "w-full bg-obsidian-950 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-gray-200 focus:outline-none focus:border-neon-cyan/50 font-mono";
+
+export const GithubImportPicker: React.FC<GithubImportPickerProps> = ({ tree, progress, onImport, onCancel }) => {
+  const [includeText, setIncludeText] = useState(DEFAULT_IMPORT_FILTERS.include.join('\n'));
+  const [excludeText, setExcludeText] = useState(DEFAULT_IMPORT_FILTERS.exclude.join('\n'));
+  const [maxSizeKb, setMaxSizeKb] = useState(DEFAULT_IMPORT_FILTERS.maxFileSize / 1024);
+  const [maxFiles, setMaxFiles] = useState(DEFAULT_IMPORT_FILTERS.maxFiles);
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(filterTreeEntries(tree.entries, DEFAULT_IMPORT_FILTERS).map(e => e.path))
+  );
+  // Open down to the imported subdirectory so its contents are visible
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(
+    ['', ...tree.path.split('/').map((_, i, segments) => segments.slice(0, i + 1).join('/'))]
+  ));
+
+  const root = useMemo(() => buildDirTree(tree.entries), [tree]);
+  const selectedEntries = useMemo(() => tree.entries.filter(e => selected.has(e.path)), [tree, selected]);
+  const selectedBytes = selectedEntries.reduce((sum, e) => sum + e.size, 0);
+  const isImporting = progress !== null;
+
+  const applyFilters = () => {
+    const filters: ImportFilters = {
+      include: parsePatterns(includeText),
+      exclude: parsePatterns(excludeText),
+      maxFileSize: Math.max(1, maxSizeKb) * 1024,
+      maxFiles: Math.max(1, maxFiles)
+    };
+    setSelected(new Set(filterTreeEntries(tree.entries, filters).map(e => e.path)));
+  };
+
+  const togglePaths = (paths: string[], select: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      paths.forEach(path => select ? next.add(path) : next.delete(path));
+      return next;
+    });
+  };
+
+  const toggleExpanded = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderDir = (dir: DirNode, depth: number): React.ReactNode => {
+    const isOpen = expanded.has(dir.path);
+    const count = dir.filePaths.filter(p => selected.has(p)).length;
+    const allSelected = count === dir.filePaths.length;
+
+    return (
+      <div key={dir.path || '/'}>
+        {dir.path && (
+          <div className="flex items-center gap-1.5 py-0.5 hover:bg-white/[0.03] rounded" style={{ paddingLeft: depth * 14 }}>
+            <input
+              type="checkbox"
+              checked={allSelected}
+              ref={el => { if (el) el.indeterminate = count > 0 && !allSelected; }}
+              onChange={() => togglePaths(dir.filePaths, !allSelected)}
+              disabled={isImporting}
+              className="accent-cyan-400"
+            />
+            <button onClick={() => toggleExpanded(dir.path)} className="flex items-center gap-1 min-w-0 text-left">
+              {isOpen ? <ChevronDown size={11} className="text-gray-500" /> : <ChevronRight size={11} className="text-gray-500" />}
+              <Folder size={12} className="text-neon-purple shrink-0" />
+              <span className="truncate text-gray-300">{dir.name}</span>
+            </button>
+            <span className="text-[9px] text-gray-600 shrink-0">{count}/{dir.filePaths.length}</span>
+          </div>
+        )}
+        {isOpen && (
+          <>
+            {dir.dirs.map(child => renderDir(child, dir.path ? depth + 1 : depth))}
+            {dir.files.map(file => (
+              <label
+                key={file.path}
+                className="flex items-center gap-1.5 py-0.5 hover:bg-white/[0.03] rounded cursor-pointer"
+                style={{ paddingLeft: (dir.path ? depth + 1 : depth) * 14 + 14 }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(file.path)}
+                  onChange={() => togglePaths([file.path], !selected.has(file.path))}
+                  disabled={isImporting}
+                  className="accent-cyan-400"
+                />
+                <FileCode size={12} className="text-neon-cyan shrink-0" />
+                <span className="truncate text-gray-400">{file.path.split('/').pop()}</span>
+                <span className="text-[9px] text-gray-600 shrink-0">{formatBytes(file.size)}</span>
+              </label>
+            ))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-4xl max-h-[85vh] flex flex-col bg-obsidian-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02] shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center border border-white/10 text-white shrink-0">
+              <Github size={16} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-sm font-bold text-gray-100 uppercase tracking-wider">Select Files to Import</h2>
+              <p className="text-[10px] text-gray-500 font-mono truncate">
+                {tree.owner}/{tree.repo}@{tree.ref}{tree.path ? `/${tree.path}` : ''} · {tree.commitSha.slice(0, 7)} · {tree.entries.length} files{tree.paged ? ' (large tree, listed per directory)' : ''}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} disabled={isImporting} className="p-2 text-gray-500 hover:text-white transition-colors disabled:opacity-30">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Filters */}
+          <div className="w-64 shrink-0 border-r border-white/5 p-4 space-y-3 overflow-y-auto custom-scrollbar">
+            <label className="block space-y-1">
+              <span className="text-[9px] text-gray-500 font-bold uppercase tracking-widest">Include (one glob per line)</span>
+              <textarea value={includeText} onChange={(e) => setIncludeText(e.target.value)} rows={5} className={`${inputClass} resize-none`} />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[9px] text-gray-500 font-bold uppercase tracking-widest">Exclude</span>
+              <textarea value={excludeText} onChange={(e) => setExcludeText(e.target.value)} rows={6} className={`${inputClass} resize-none`} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <span className="text-[9px] text-gray-500 font-bold uppercase tracking-widest">Max KB</span>
+                <input type="number" min={1} value={maxSizeKb} onChange={(e) => setMaxSizeKb(Number(e.target.value))} className={inputClass} />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[9px] text-gray-500 font-bold uppercase tracking-widest">Max Files</span>
+                <input type="number" min={1} value={maxFiles} onChange={(e) => setMaxFiles(Number(e.target.value))} className={inputClass} />
+              </label>
+            </div>
+            <button
+              onClick={applyFilters}
+              disabled={isImporting}
+              className="w-full flex items-center justify-center gap-1.5 text-[10px] text-neon-cyan hover:text-white bg-neon-cyan/10 hover:bg-neon-cyan/20 px-2 py-1.5 rounded border border-neon-cyan/20 font-bold uppercase tracking-wide transition-colors disabled:opacity-40"
+            >
+              <Filter size={11} /> Apply Filters
+            </button>
+            <p className="text-[9px] text-gray-600 leading-relaxed">
+              Filters reset the selection; configs and entry points are kept first when the file limit applies.
+            </p>
+          </div>
+
+          {/* Tree */}
+          <div className="flex-1 overflow-y-auto p-4 custom-scrollbar text-[11px] font-mono">
+            {renderDir(root, 0)}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-white/5 bg-white/[0.01] flex items-center gap-4 shrink-0">
+          {isImporting ? (
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                <span className="truncate">{progress.current || 'Starting...'}</span>
+                <span className="shrink-0 ml-2">{progress.done}/{progress.total}</span>
+              </div>
+              <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-neon-cyan transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ) : (
+            <span className="flex-1 text-[10px] font-mono text-gray-500">
+              {selectedEntries.length} selected · {formatBytes(selectedBytes)} · ~{formatTokens(Math.ceil(selectedBytes / 4))} tokens
+            </span>
+          )}
+          <button
+            onClick={() => onImport(rankImportEntries(selectedEntries))}
+            disabled={isImporting || selectedEntries.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-neon-cyan to-indigo-600 text-obsidian-950 text-xs font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={14} /> Import {selectedEntries.length} file(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,117 @@
 import React, { useState, useEffect } from 'react';
-import { Github, X, Send, Download, Shield, Layout, AlertCircle, CheckCircle2, ExternalLink, Key } from 'lucide-react';
-import { fetchGithubRepo, commitToGithub, parseGithubUrl } from '../services/githubService';
-import { FileContext } from '../types';
+import { Github, X, Send, Download, Shield, Layout, AlertCircle, CheckCircle2, ExternalLink, Key, GitBranch, Sparkles, FilePlus, FileDiff, MessageSquareCode } from 'lucide-react';
+import { fetchGithubRepo, commitToNewBranch, openPullRequest, findChangedFiles, isSameRepo, parseGithubUrl, parseGithubIssueUrl, getGithubToken, saveGithubToken, ChangedFile } from '../services/githubService';
+import { PullRequestText } from '../services/geminiService';
+import { FileContext, RepoRef } from '../types';
 
 interface GithubModalProps {
     isOpen: boolean;
     onClose: () => void;
     currentFiles: FileContext[];
+    createdFileIds: string[]; // Files created in the workspace by applied edits
     onImport: (files: FileContext[], url: string) => void;
+    onGeneratePullRequest: (changedPaths: string[]) => Promise<PullRequestText>;
+    onReviewPullRequest: (url: string, token?: string) => void;
 }
 
-export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, currentFiles, onImport }) => {
+const defaultBranchName = () => `codeagent/${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '')}`;
+
+export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, currentFiles, createdFileIds, onImport, onGeneratePullRequest, onReviewPullRequest }) => {
     const [url, setUrl] = useState('');
     const [token, setToken] = useState('');
     const [commitMessage, setCommitMessage] = useState('Update from CodeAgent X');
+    const [branchName, setBranchName] = useState(defaultBranchName);
+    const [prTitle, setPrTitle] = useState('');
+    const [prBody, setPrBody] = useState('');
+    const [changedFiles, setChangedFiles] = useState<ChangedFile[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isGenerating, setIsGenerating] = useState(false);
     const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
     const [errorMessage, setErrorMessage] = useState('');
     const [successUrl, setSuccessUrl] = useState('');
-    const [mode, setMode] = useState<'fetch' | 'commit'>('fetch');
+    const [commitUrl, setCommitUrl] = useState('');
+    const [mode, setMode] = useState<'fetch' | 'commit' | 'review'>('fetch');
 
-    // Load token from localStorage on mount
+    // Pick up the stored token; the key vault may have been unlocked since the last open
     useEffect(() => {
-        const savedToken = localStorage.getItem('GITHUB_TOKEN');
+        if (!isOpen || token) return;
+        const savedToken = getGithubToken();
         if (savedToken) setToken(savedToken);
-    }, []);
+    }, [isOpen]);
+
+    // Default to the repository the workspace was imported from
+    useEffect(() => {
+        if (!isOpen || url) return;
+        const source = currentFiles.find(f => f.repoRef)?.repoRef;
+        if (source) {
+            setUrl(`https://github.com/${source.owner}/${source.repo}`);
+            setMode('commit');
+        }
+    }, [isOpen]);
+
+    // Recompute what would be committed whenever the target repo or workspace changes
+    useEffect(() => {
+        const parsed = parseGithubUrl(url);
+        if (!isOpen || mode !== 'commit' || !parsed) {
+            setChangedFiles([]);
+            return;
+        }
+        let cancelled = false;
+        findChangedFiles(currentFiles, parsed.owner, parsed.repo, createdFileIds).then(changed => {
+            if (cancelled) return;
+            setChangedFiles(changed);
+            setSelectedIds(new Set(changed.map(c => c.file.id)));
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, mode, url, currentFiles, createdFileIds]);
 
     if (!isOpen) return null;
 
-    const handleSaveToken = () => {
-        localStorage.setItem('GITHUB_TOKEN', token);
-        alert('Token saved locally.');
+    const selectedChanges = changedFiles.filter(c => selectedIds.has(c.file.id));
+
+    // Commits the modified files were read from; each becomes a separate base
+    const commitBases = (changes: ChangedFile[]) => {
+        const bases = new Map<string, RepoRef>();
+        changes.forEach(({ file }) => {
+            if (file.repoRef) bases.set(`${file.repoRef.owner}/${file.repoRef.repo}@${file.repoRef.commitSha}`.toLowerCase(), file.repoRef);
+        });
+        return Array.from(bases.values());
+    };
+    const describeBase = (ref: RepoRef) => `${ref.ref}@${ref.commitSha.slice(0, 7)}`;
+    const showBases = commitBases(changedFiles).length > 1;
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setErrorMessage('');
+        try {
+            const generated = await onGeneratePullRequest(selectedChanges.map(c => c.file.name));
+            setPrTitle(generated.title);
+            setPrBody(generated.body);
+            setCommitMessage(generated.title);
+        } catch (e: any) {
+            setStatus('error');
+            setErrorMessage(e.message || 'Failed to generate a description.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleSaveToken = async () => {
+        try {
+            await saveGithubToken(token);
+            alert('Token saved to the encrypted key vault.');
+        } catch (e: any) {
+            alert(e.message);
+        }
     };
 
     const handleFetch = async () => {
@@ -50,26 +132,57 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
         }
     };
 
+    const handleReview = () => {
+        const parsed = parseGithubIssueUrl(url);
+        if (!parsed?.isPullRequest) {
+            setStatus('error');
+            setErrorMessage('Enter a pull request URL, e.g. https://github.com/owner/repo/pull/42');
+            return;
+        }
+        setStatus('idle');
+        onReviewPullRequest(url, token || undefined);
+        onClose();
+    };
+
     const handleCommit = async () => {
         if (!url.trim() || !token.trim()) {
+            setStatus('error');
             setErrorMessage('URL and Token are required for committing.');
             return;
         }
-        if (currentFiles.length === 0) {
-            setErrorMessage('No files to commit.');
+        if (selectedChanges.length === 0) {
+            setStatus('error');
+            setErrorMessage('No changed files to commit.');
+            return;
+        }
+        if (!branchName.trim() || !prTitle.trim()) {
+            setStatus('error');
+            setErrorMessage('A branch name and pull request title are required.');
+            return;
+        }
+
+        // Committing files from one commit onto another would show everything in between as reverted
+        const selectedBases = commitBases(selectedChanges);
+        if (selectedBases.length > 1) {
+            setStatus('error');
+            setErrorMessage(`The selected files were imported from different commits (${selectedBases.map(describeBase).join(', ')}). Select the files of one import at a time.`);
             return;
         }
 
         setStatus('loading');
         setErrorMessage('');
         try {
-            const filesToCommit = currentFiles
-                .filter(f => f.type === 'file')
-                .map(f => ({ path: f.name, content: f.content }));
+            const parsed = parseGithubUrl(url)!;
+            // The import commit is the base, so the PR shows only the workspace's changes
+            const base = selectedBases[0] || currentFiles.find(f => isSameRepo(f.repoRef, parsed.owner, parsed.repo))?.repoRef;
+            const filesToCommit = selectedChanges.map(c => ({ path: c.file.name, content: c.file.content }));
 
-            const commitUrl = await commitToGithub(url, token, commitMessage, filesToCommit);
-            setSuccessUrl(commitUrl);
+            const commit = await commitToNewBranch(url, token, commitMessage, filesToCommit, branchName.trim(), base);
+            setCommitUrl(commit.commitUrl);
+            const prUrl = await openPullRequest(url, token, commit.branch, commit.baseBranch, prTitle.trim(), prBody);
+            setSuccessUrl(prUrl);
             setStatus('success');
+            setBranchName(defaultBranchName());
         } catch (e: any) {
             setStatus('error');
             setErrorMessage(e.message || 'Failed to commit changes.');
@@ -110,19 +223,25 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                     >
                         <Send size={14} /> Push Commit
                     </button>
+                    <button
+                        onClick={() => { setMode('review'); setStatus('idle'); }}
+                        className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs font-semibold rounded-lg transition-all ${mode === 'review' ? 'bg-white/5 text-white shadow-inner' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                        <MessageSquareCode size={14} /> Review PR
+                    </button>
                 </div>
 
-                <div className="p-6 space-y-5">
+                <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto custom-scrollbar">
                     {/* Repo URL */}
                     <div className="space-y-2">
                         <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
-                            <Layout size={10} /> Repository URL
+                            <Layout size={10} /> {mode === 'review' ? 'Pull Request URL' : 'Repository URL'}
                         </label>
                         <input
                             type="text"
                             value={url}
                             onChange={(e) => setUrl(e.target.value)}
-                            placeholder="https://github.com/owner/repo"
+                            placeholder={mode === 'review' ? 'https://github.com/owner/repo/pull/42' : 'https://github.com/owner/repo'}
                             className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-neon-cyan/50 focus:ring-1 focus:ring-neon-cyan/20 font-mono transition-all"
                         />
                     </div>
@@ -156,18 +275,88 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                     </div>
 
                     {mode === 'commit' && (
-                        <div className="space-y-2 animate-fade-in">
-                            <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
-                                <Send size={10} /> Commit Message
-                            </label>
-                            <textarea
-                                value={commitMessage}
-                                onChange={(e) => setCommitMessage(e.target.value)}
-                                className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-neon-amber/50 focus:ring-1 focus:ring-neon-amber/20 font-mono transition-all h-20 resize-none"
-                            />
+                        <div className="space-y-4 animate-fade-in">
+                            {/* Changed Files */}
+                            <div className="space-y-2">
+                                <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
+                                    <FileDiff size={10} /> Changed Files ({selectedChanges.length}/{changedFiles.length})
+                                </label>
+                                {changedFiles.length === 0 ? (
+                                    <p className="text-[11px] text-gray-600 font-mono">No files changed since import.</p>
+                                ) : (
+                                    <div className="max-h-32 overflow-y-auto custom-scrollbar rounded-xl bg-obsidian-950 border border-white/10 p-2 space-y-0.5">
+                                        {changedFiles.map(({ file, status: change }) => (
+                                            <label key={file.id} className="flex items-center gap-2 text-[11px] font-mono text-gray-300 cursor-pointer">
+                                                <input type="checkbox" checked={selectedIds.has(file.id)} onChange={() => toggleSelected(file.id)} className="accent-amber-400" />
+                                                {change === 'added' ? <FilePlus size={11} className="text-neon-emerald shrink-0" /> : <FileDiff size={11} className="text-neon-amber shrink-0" />}
+                                                <span className="truncate">{file.name}</span>
+                                                {showBases && file.repoRef && <span className="ml-auto shrink-0 text-[10px] text-gray-600">{describeBase(file.repoRef)}</span>}
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
+                                    <GitBranch size={10} /> New Branch
+                                </label>
+                                <input
+                                    type="text"
+                                    value={branchName}
+                                    onChange={(e) => setBranchName(e.target.value)}
+                                    className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-2.5 text-sm text-gray-200 focus:outline-none focus:border-neon-amber/50 focus:ring-1 focus:ring-neon-amber/20 font-mono transition-all"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
+                                        <Send size={10} /> Pull Request
+                                    </label>
+                                    <button
+                                        onClick={handleGenerate}
+                                        disabled={isGenerating || selectedChanges.length === 0}
+                                        className="flex items-center gap-1 text-[9px] text-neon-purple hover:underline font-bold uppercase tracking-tighter disabled:opacity-40"
+                                    >
+                                        <Sparkles size={10} className={isGenerating ? 'animate-pulse' : ''} />
+                                        {isGenerating ? 'Summarizing chat...' : 'Generate from chat'}
+                                    </button>
+                                </div>
+                                <input
+                                    type="text"
+                                    value={prTitle}
+                                    onChange={(e) => setPrTitle(e.target.value)}
+                                    placeholder="Title"
+                                    className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-2.5 text-sm text-gray-200 focus:outline-none focus:border-neon-amber/50 focus:ring-1 focus:ring-neon-amber/20 transition-all"
+                                />
+                                <textarea
+                                    value={prBody}
+                                    onChange={(e) => setPrBody(e.target.value)}
+                                    placeholder="Description (Markdown)"
+                                    className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-3 text-xs text-gray-200 focus:outline-none focus:border-neon-amber/50 focus:ring-1 focus:ring-neon-amber/20 font-mono transition-all h-28 resize-none custom-scrollbar"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-[10px] text-gray-500 font-bold uppercase tracking-widest flex items-center gap-2">
+                                    <Send size={10} /> Commit Message
+                                </label>
+                                <textarea
+                                    value={commitMessage}
+                                    onChange={(e) => setCommitMessage(e.target.value)}
+                                    className="w-full bg-obsidian-950 border border-white/10 rounded-xl px-4 py-3 text-sm text-gray-200 focus:outline-none focus:border-neon-amber/50 focus:ring-1 focus:ring-neon-amber/20 font-mono transition-all h-16 resize-none"
+                                />
+                            </div>
                         </div>
                     )}
 
+                    {mode === 'review' && (
+                        <p className="text-[11px] text-gray-500 leading-relaxed animate-fade-in">
+                            Loads the diff and the base version of each changed file, then runs an Architect review. Findings can be posted back to the pull request as review comments, which requires a token with write access.
+                        </p>
+                    )}
+
                     {/* Status Messages */}
                     {status === 'error' && (
                         <div className="flex items-start gap-3 p-4 rounded-xl bg-neon-rose/5 border border-neon-rose/20 animate-shake">
@@ -187,7 +376,7 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                         <div className="space-y-3 animate-fade-in">
                             <div className="flex items-center gap-3 p-4 rounded-xl bg-neon-cyan/5 border border-neon-cyan/20">
                                 <CheckCircle2 className="text-neon-cyan" size={18} />
-                                <p className="text-xs text-neon-cyan/90 font-medium">Commit pushed successfully!</p>
+                                <p className="text-xs text-neon-cyan/90 font-medium">Branch pushed and pull request opened!</p>
                             </div>
                             <a
                                 href={successUrl}
@@ -195,9 +384,18 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                                 rel="noopener noreferrer"
                                 className="flex items-center justify-between w-full px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs text-gray-300 transition-all group"
                             >
-                                <span>View Commit on GitHub</span>
+                                <span>View Pull Request on GitHub</span>
                                 <ExternalLink size={14} className="group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform" />
                             </a>
+                            <a
+                                href={commitUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center justify-between w-full px-4 py-2 text-[11px] text-gray-500 hover:text-gray-300 transition-all"
+                            >
+                                <span>View Commit</span>
+                                <ExternalLink size={12} />
+                            </a>
                         </div>
                     )}
                 </div>
@@ -213,6 +411,14 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                             {status === 'loading' ? <div className="w-5 h-5 border-2 border-obsidian-950 border-t-transparent rounded-full animate-spin"></div> : <Download size={18} />}
                             FETCH REPOSITORY
                         </button>
+                    ) : mode === 'review' ? (
+                        <button
+                            onClick={handleReview}
+                            className="w-full py-4 bg-gradient-to-r from-neon-purple to-indigo-600 hover:from-purple-400 hover:to-indigo-500 text-obsidian-950 font-bold rounded-xl flex items-center justify-center gap-3 transition-all shadow-xl shadow-neon-purple/20"
+                        >
+                            <MessageSquareCode size={18} />
+                            LOAD & REVIEW
+                        </button>
                     ) : (
                         <button
                             onClick={handleCommit}
@@ -220,7 +426,7 @@ export const GithubModal: React.FC<GithubModalProps> = ({ isOpen, onClose, curre
                             className="w-full py-4 bg-gradient-to-r from-neon-amber to-orange-600 hover:from-amber-400 hover:to-orange-500 text-obsidian-950 font-bold rounded-xl flex items-center justify-center gap-3 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-xl shadow-neon-amber/20"
                         >
                             {status === 'loading' ? <div className="w-5 h-5 border-2 border-obsidian-950 border-t-transparent rounded-full animate-spin"></div> : <Send size={18} />}
-                            PUSH CHANGES
+                            CREATE BRANCH & PULL REQUEST
                         </button>
                     )}
                 </div>
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Message } from '../types';
-import { Bot, User, ChevronDown, ChevronRight, Brain, ShieldCheck, Activity, Copy, Check } from 'lucide-react';
+import { Message, FileContext, FilePatch } from '../types';
+import { buildFilePatches } from '../services/patchService';
+import { resolveCitation } from '../services/citationService';
+import { DiffReview } from './DiffReview';
+import { ReviewFindings } from './ReviewFindings';
+import { DebugTimeline } from './DebugTimeline';
+import { ErrorNotice } from './ErrorNotice';
+import { Bot, User, ChevronDown, ChevronRight, Brain, ShieldCheck, Activity, Copy, Check, Square, FileCode } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -9,28 +15,22 @@ import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 interface MessageBubbleProps {
   message: Message;
   onCodeReview?: (code: string, language: string) => void;
-  onApplyChange?: (fileName: string, code: string) => void;
+  onApplyPatches?: (patches: FilePatch[], messageId: string) => void;
+  onPostReview?: (messageId: string, findingIds: string[]) => Promise<void>;
+  onOpenCitation?: (fileId: string, line: number) => void;
+  onRetry?: (messageId: string) => void;
+  files?: FileContext[]; // Workspace the proposed edits are resolved against
 }
 
-export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeReview, onApplyChange }) => {
+export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeReview, onApplyPatches, onPostReview, onOpenCitation, onRetry, files = [] }) => {
   const isUser = message.role === 'user';
   const [showThinking, setShowThinking] = useState(false);
 
-  const extractFileName = (code: string): string | null => {
-    // Look for common file patterns in comments at the top
-    const patterns = [
-      /\/\/\s*([\w.-]+\.\w+)/, // // filename.ts
-      /\/\*\s*([\w.-]+\.\w+)\s*\*\//, // /* filename.ts */
-      /#\s*([\w.-]+\.\w+)/, // # filename.py
-      /<!--\s*([\w.-]+\.\w+)\s*-->/, // <!-- filename.html -->
-    ];
-
-    for (const pattern of patterns) {
-      const match = code.match(pattern);
-      if (match && match[1]) return match[1];
-    }
-    return null;
-  };
+  // Structured edits are only parsed once the answer is complete, and not again once applied
+  const patches = React.useMemo(
+    () => (isUser || message.isThinking || !onApplyPatches || message.appliedPatches) ? [] : buildFilePatches(message.text, files),
+    [isUser, message.isThinking, message.text, message.appliedPatches, files, onApplyPatches]
+  );
 
   // Auto-expand thinking when it becomes available
   useEffect(() => {
@@ -89,7 +89,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
         setTimeout(() => setCopied(false), 2000);
       };
 
-      return !inline && match ? (
+      if (!inline && match) return (
         <div className="my-6 rounded-lg overflow-hidden border border-white/10 bg-[#1e1e1e] shadow-2xl relative group">
           {/* Mac-style Window Header */}
           <div className="flex items-center justify-between px-4 py-2 bg-[#252526] border-b border-white/5 select-none">
@@ -112,15 +112,6 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
                 {copied ? <Check size={12} /> : <Copy size={12} />}
                 <span>{copied ? 'Copied' : 'Copy'}</span>
               </button>
-              {onApplyChange && extractFileName(codeContent) && (
-                <button
-                  onClick={() => onApplyChange(extractFileName(codeContent)!, codeContent)}
-                  className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1.5 text-[10px] text-neon-cyan hover:text-white bg-neon-cyan/10 hover:bg-neon-cyan/20 px-2 py-1 rounded border border-neon-cyan/20"
-                >
-                  <Bot size={12} />
-                  <span>Apply</span>
-                </button>
-              )}
               {onCodeReview && (
                 <button
                   onClick={() => onCodeReview(codeContent, language)}
@@ -144,13 +135,39 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
             {codeContent}
           </SyntaxHighlighter>
         </div>
-      ) : (
+      );
+
+      // Inline `path:line` citations open the file at that line; broken ones are flagged
+      const citation = onOpenCitation && !isUser ? resolveCitation(codeContent, files) : null;
+      if (citation?.error) {
+        return (
+          <code
+            title={`Unresolved citation: ${citation.error}`}
+            className="bg-neon-rose/10 px-1.5 py-0.5 rounded text-neon-rose/80 font-mono text-[0.85em] border border-neon-rose/20 mx-0.5 line-through decoration-neon-rose/50"
+          >
+            {children}
+          </code>
+        );
+      }
+      if (citation?.file) {
+        const { file, startLine } = citation;
+        return (
+          <button
+            onClick={() => onOpenCitation!(file.id, startLine)}
+            title={`Open ${file.name} at line ${startLine}`}
+            className="bg-neon-cyan/10 hover:bg-neon-cyan/20 px-1.5 py-0.5 rounded text-neon-cyan font-mono text-[0.85em] border border-neon-cyan/20 mx-0.5 underline decoration-dotted underline-offset-2 transition-colors"
+          >
+            {children}
+          </button>
+        );
+      }
+      return (
         <code className="bg-white/10 px-1.5 py-0.5 rounded text-neon-amber font-mono text-[0.85em] border border-white/5 mx-0.5">
           {children}
         </code>
-      )
+      );
     }
-  }), [onApplyChange, onCodeReview]);
+  }), [onCodeReview, onOpenCitation, files, isUser]);
 
   if (isUser) {
     return (
@@ -181,10 +198,19 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
           <div className="flex items-center gap-2 mb-1">
             <span className="text-xs font-bold text-neon-cyan tracking-widest uppercase font-mono">Gemini 3.0</span>
             <span className="text-[10px] text-gray-500 font-mono">{new Date(message.timestamp).toLocaleTimeString()}</span>
+            {message.isCancelled && (
+              <span className="flex items-center gap-1 text-[9px] text-neon-rose font-mono uppercase tracking-wider px-1.5 py-0.5 rounded bg-neon-rose/10 border border-neon-rose/20">
+                <Square size={8} className="fill-current" /> Cancelled
+              </span>
+            )}
           </div>
 
-          {/* 1. Reasoning Engine Visualization */}
-          {(message.thoughts || message.isThinking) && (
+          {/* 1. Reasoning Engine Visualization (DEBUG runs show it per attempt in the timeline) */}
+          {message.debugRun && (
+            <DebugTimeline iterations={message.debugRun} isLive={!!message.isThinking} markdownComponents={markdownComponents} />
+          )}
+
+          {!message.debugRun && (message.thoughts || message.isThinking) && (
             <div className="mb-4 w-full">
               <button
                 onClick={() => setShowThinking(!showThinking)}
@@ -203,7 +229,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
                   </div>
                   <div className="flex flex-col items-start">
                     <span className={`text-xs font-bold font-mono tracking-wider uppercase ${showThinking ? 'text-neon-purple' : 'text-gray-400'}`}>
-                      {message.isThinking ? 'Processing Context...' : 'Reasoning Trace'}
+                      {message.isThinking ? (message.thoughts ? 'Reasoning Live...' : 'Processing Context...') : 'Reasoning Trace'}
                     </span>
                   </div>
                 </div>
@@ -247,8 +273,27 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
             </div>
           )}
 
-          {/* 2. Final Output */}
-          {!message.isThinking && (
+          {message.contextFileNames && message.contextFileNames.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 mb-3" title={message.contextFileNames.join('\n')}>
+              <FileCode size={10} className="text-gray-500" />
+              <span className="text-[9px] text-gray-500 font-mono uppercase tracking-wider">Context:</span>
+              {message.contextFileNames.slice(0, 4).map(name => (
+                <span key={name} className="text-[9px] text-gray-400 font-mono px-1.5 py-0.5 rounded bg-white/5 border border-white/5">
+                  {name.split('/').pop()}
+                </span>
+              ))}
+              {message.contextFileNames.length > 4 && (
+                <span className="text-[9px] text-gray-500 font-mono">+{message.contextFileNames.length - 4} more</span>
+              )}
+            </div>
+          )}
+
+          {message.isCancelled && !message.text && (
+            <p className="text-xs text-gray-500 font-mono italic">Run stopped before an answer was produced.</p>
+          )}
+
+          {/* 2. Final Output (rendered live while the answer streams in; a failure may leave a partial answer) */}
+          {(!message.isThinking || message.text) && (!message.error || message.text) && (
             <div className="prose prose-invert prose-sm max-w-none leading-7 text-gray-300 font-sans">
               <ReactMarkdown
                 remarkPlugins={[remarkGfm]}
@@ -258,6 +303,23 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onCodeRev
               </ReactMarkdown>
             </div>
           )}
+
+          {message.error && (
+            <ErrorNotice error={message.error} onRetry={onRetry && message.retry && (() => onRetry(message.id))} />
+          )}
+
+          {/* 3. Structured edits awaiting review */}
+          {(patches.length > 0 || message.appliedPatches) && onApplyPatches && (
+            <DiffReview patches={patches} applied={message.appliedPatches} onApply={(accepted) => onApplyPatches(accepted, message.id)} />
+          )}
+
+          {/* 4. Pull request review findings */}
+          {message.review && (
+            <ReviewFindings
+              review={message.review}
+              onPost={onPostReview && ((findingIds) => onPostReview(message.id, findingIds))}
+            />
+          )}
         </div>
       </div>
     </div>
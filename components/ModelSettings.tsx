@@ -0,0 +1,206 @@
+import React from 'react';
+import { AgentMode } from '../types';
+import { MODEL_REGISTRY, getModelInfo, clampBudget, ModelInfo } from '../services/modelService';
+import { DebugPipelineConfig, DebugStageName, MAX_ITERATION_OPTIONS } from '../services/debugPipelineService';
+import { formatTokens } from '../services/tokenService';
+import { ProviderSettings, ProviderKind, PROVIDER_LABELS } from '../services/llmProvider';
+import { SlidersHorizontal, X, Brain, Server } from 'lucide-react';
+
+interface ModelSettingsProps {
+  agentMode: AgentMode;
+  modeModels: Record<AgentMode, string>;
+  onModeModelChange: (mode: AgentMode, modelId: string) => void;
+  thinkingBudget: number;
+  onBudgetChange: (budget: number) => void;
+  debugPipeline: DebugPipelineConfig;
+  onDebugPipelineChange: (config: DebugPipelineConfig) => void;
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const modeLabels: Record<AgentMode, string> = {
+  [AgentMode.ARCHITECT]: 'Think',
+  [AgentMode.DEBUG]: 'Debug (draft)',
+  [AgentMode.FAST]: 'Fast'
+};
+
+// The draft stage follows the Debug mode model and the active budget
+const EDITABLE_STAGES: { stage: DebugStageName; label: string }[] = [
+  { stage: 'verify', label: 'Verify' },
+  { stage: 'repair', label: 'Repair' }
+];
+
+const selectClass = "bg-obsidian-950 border border-white/10 rounded-md px-2 py-1 text-[11px] text-gray-200 font-mono focus:outline-none focus:border-neon-purple/50";
+
+const inputClass = "flex-1 bg-obsidian-950 border border-white/10 rounded-md px-2 py-1 text-[11px] text-gray-200 font-mono placeholder-gray-600 focus:outline-none focus:border-neon-purple/50";
+
+const describeModel = (model: ModelInfo) =>
+  `${model.supportsThinking ? `thinking ${formatTokens(model.minBudget)}–${formatTokens(model.maxBudget)}` : 'no thinking'} · ${formatTokens(model.contextWindow)} context`;
+
+const ModelSelect: React.FC<{ value: string; onChange: (id: string) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+    {MODEL_REGISTRY.map(model => (
+      <option key={model.id} value={model.id}>{model.label}</option>
+    ))}
+  </select>
+);
+
+const BudgetSlider: React.FC<{ model: ModelInfo; value: number; onChange: (budget: number) => void }> = ({ model, value, onChange }) => {
+  if (!model.supportsThinking) {
+    return <span className="text-[10px] text-gray-600 font-mono">{model.label} does not support a thinking budget</span>;
+  }
+  const budget = clampBudget(model, value);
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={model.minBudget}
+        max={model.maxBudget}
+        step={128}
+        value={budget}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-violet-400"
+      />
+      <span className="w-14 text-right text-[11px] text-neon-purple font-mono">{budget === 0 ? 'off' : formatTokens(budget)}</span>
+    </div>
+  );
+};
+
+export const ModelSettings: React.FC<ModelSettingsProps> = ({
+  agentMode, modeModels, onModeModelChange, thinkingBudget, onBudgetChange, debugPipeline, onDebugPipelineChange, providerSettings, onProviderSettingsChange, onClose
+}) => {
+  const activeModel = getModelInfo(modeModels[agentMode]);
+
+  const updateStage = (stage: DebugStageName, changes: Partial<DebugPipelineConfig['stages'][DebugStageName]>) => {
+    onDebugPipelineChange({ ...debugPipeline, stages: { ...debugPipeline.stages, [stage]: { ...debugPipeline.stages[stage], ...changes } } });
+  };
+
+  const updateProvider = (changes: Partial<ProviderSettings>) => onProviderSettingsChange({ ...providerSettings, ...changes });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-xl max-h-[85vh] flex flex-col bg-obsidian-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02] shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center border border-white/10 text-neon-purple">
+              <SlidersHorizontal size={16} />
+            </div>
+            <div>
+              <h2 className="text-sm font-bold text-gray-100 uppercase tracking-wider">Model Settings</h2>
+              <p className="text-[10px] text-gray-500 font-mono">Applies to the next request</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {/* Provider */}
+          <section className="space-y-2">
+            <h3 className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+              <Server size={12} className="text-neon-purple" /> Provider
+            </h3>
+            <select
+              value={providerSettings.kind}
+              onChange={(e) => updateProvider({ kind: e.target.value as ProviderKind })}
+              className={selectClass}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+              ))}
+            </select>
+            {providerSettings.kind === 'openai-compatible' && (
+              <div className="space-y-2">
+                {([
+                  { field: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:11434/v1' },
+                  { field: 'model', label: 'Model', placeholder: 'llama3.1' },
+                  { field: 'apiKey', label: 'API key', placeholder: 'optional' }
+                ] as const).map(({ field, label, placeholder }) => (
+                  <div key={field} className="flex items-center gap-3">
+                    <span className="w-24 text-[11px] text-gray-500 font-mono">{label}</span>
+                    <input
+                      type={field === 'apiKey' ? 'password' : 'text'}
+                      value={providerSettings[field]}
+                      onChange={(e) => updateProvider({ [field]: e.target.value })}
+                      placeholder={placeholder}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            {providerSettings.kind !== 'gemini' && (
+              <p className="text-[10px] text-gray-600 font-mono">
+                {providerSettings.kind === 'mock'
+                  ? 'Canned offline answers; no requests leave the browser.'
+                  : 'This model serves every mode; the model choices below only set budgets and context windows.'}
+              </p>
+            )}
+          </section>
+
+          {/* Active budget */}
+          <section className="space-y-2">
+            <h3 className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+              <Brain size={12} className="text-neon-purple" /> Thinking budget · {modeLabels[agentMode]} · {activeModel.label}
+            </h3>
+            <BudgetSlider model={activeModel} value={thinkingBudget} onChange={onBudgetChange} />
+          </section>
+
+          {/* Models per mode */}
+          <section className="space-y-2">
+            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Models</h3>
+            {[AgentMode.ARCHITECT, AgentMode.DEBUG, AgentMode.FAST].map(mode => (
+              <div key={mode} className="flex items-center gap-3">
+                <span className={`w-24 text-[11px] font-mono ${mode === agentMode ? 'text-gray-200' : 'text-gray-500'}`}>{modeLabels[mode]}</span>
+                <ModelSelect value={modeModels[mode]} onChange={(id) => onModeModelChange(mode, id)} />
+                <span className="text-[10px] text-gray-600 font-mono truncate">{describeModel(getModelInfo(modeModels[mode]))}</span>
+              </div>
+            ))}
+          </section>
+
+          {/* Debug pipeline */}
+          <section className="space-y-3">
+            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Debug pipeline</h3>
+            {EDITABLE_STAGES.map(({ stage, label }) => {
+              const model = getModelInfo(debugPipeline.stages[stage].model);
+              return (
+                <div key={stage} className="space-y-1">
+                  <div className="flex items-center gap-3">
+                    <span className="w-24 text-[11px] text-gray-500 font-mono">{label}</span>
+                    <ModelSelect value={model.id} onChange={(id) => updateStage(stage, { model: id, thinkingBudget: getModelInfo(id).defaultBudget })} />
+                  </div>
+                  <div className="pl-[108px]">
+                    <BudgetSlider model={model} value={debugPipeline.stages[stage].thinkingBudget} onChange={(budget) => updateStage(stage, { thinkingBudget: budget })} />
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-3">
+              <span className="w-24 text-[11px] text-gray-500 font-mono">Attempts</span>
+              <select
+                value={debugPipeline.maxIterations}
+                onChange={(e) => onDebugPipelineChange({ ...debugPipeline, maxIterations: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {MAX_ITERATION_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <label className="flex items-center gap-2 text-[11px] text-gray-400 font-mono cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={debugPipeline.runTests}
+                  onChange={(e) => onDebugPipelineChange({ ...debugPipeline, runTests: e.target.checked })}
+                  className="accent-amber-400"
+                />
+                Run affected tests
+              </label>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
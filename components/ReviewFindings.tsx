@@ -0,0 +1,119 @@
+import React, { useState, useMemo } from 'react';
+import { PullRequestReview, ReviewSeverity } from '../types';
+import { MessageSquareCode, Github, ExternalLink, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ReviewFindingsProps {
+  review: PullRequestReview;
+  onPost?: (findingIds: string[]) => Promise<void>;
+}
+
+const severityStyles: Record<ReviewSeverity, string> = {
+  critical: 'text-neon-rose border-neon-rose/30 bg-neon-rose/10',
+  major: 'text-neon-amber border-neon-amber/30 bg-neon-amber/10',
+  minor: 'text-neon-cyan border-neon-cyan/30 bg-neon-cyan/10',
+  nit: 'text-gray-400 border-white/10 bg-white/5'
+};
+
+export const SEVERITY_ORDER: ReviewSeverity[] = ['critical', 'major', 'minor', 'nit'];
+
+export const ReviewFindings: React.FC<ReviewFindingsProps> = ({ review, onPost }) => {
+  // Nits are left out of the posted review unless the user opts in
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(review.findings.filter(f => f.severity !== 'nit').map(f => f.id))
+  );
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  const byFile = useMemo(() => {
+    const groups = new Map<string, PullRequestReview['findings']>();
+    [...review.findings]
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line)
+      .forEach(f => groups.set(f.path, [...(groups.get(f.path) || []), f]));
+    return Array.from(groups.entries());
+  }, [review]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handlePost = async () => {
+    if (!onPost) return;
+    setIsPosting(true);
+    try {
+      await onPost(review.findings.filter(f => selected.has(f.id)).map(f => f.id));
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-white/10 bg-obsidian-900/60 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5 bg-white/[0.02]">
+        <div className="flex items-center gap-2 text-xs font-mono text-gray-300">
+          <MessageSquareCode size={14} className="text-neon-purple" />
+          <span className="font-bold uppercase tracking-wider">Findings</span>
+          <span className="text-gray-500">{review.owner}/{review.repo}#{review.number}</span>
+          {SEVERITY_ORDER.map(severity => {
+            const count = review.findings.filter(f => f.severity === severity).length;
+            return count > 0 && (
+              <span key={severity} className={`text-[9px] uppercase px-1.5 py-0.5 rounded border ${severityStyles[severity]}`}>{count} {severity}</span>
+            );
+          })}
+        </div>
+        {review.postedUrl ? (
+          <a href={review.postedUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 text-[10px] text-neon-emerald font-mono uppercase hover:underline">
+            <ExternalLink size={12} /> Posted
+          </a>
+        ) : onPost && (
+          <button
+            onClick={handlePost}
+            disabled={isPosting || selected.size === 0}
+            className="flex items-center gap-1.5 text-[10px] text-neon-cyan hover:text-white bg-neon-cyan/10 hover:bg-neon-cyan/20 px-2 py-1 rounded border border-neon-cyan/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Github size={12} />
+            <span>{isPosting ? 'Posting...' : `Post ${selected.size} to PR`}</span>
+          </button>
+        )}
+      </div>
+
+      {review.findings.length === 0 && (
+        <p className="px-4 py-3 text-xs text-gray-500 font-mono">No issues found.</p>
+      )}
+
+      {byFile.map(([path, findings]) => (
+        <div key={path} className="border-b border-white/5 last:border-b-0">
+          <div className="px-4 py-1.5 bg-black/20 text-[11px] font-mono text-gray-400 truncate" title={path}>{path}</div>
+          {findings.map(finding => {
+            const isExpanded = expandedId === finding.id;
+            return (
+              <div key={finding.id} className="px-4 py-1.5 border-t border-white/5">
+                <div className="flex items-center gap-2 text-xs">
+                  {onPost && !review.postedUrl && (
+                    <input type="checkbox" checked={selected.has(finding.id)} onChange={() => toggle(finding.id)} className="accent-cyan-400" />
+                  )}
+                  <span className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border shrink-0 ${severityStyles[finding.severity]}`}>{finding.severity}</span>
+                  <span className="text-[10px] font-mono text-gray-500 shrink-0">L{finding.line}</span>
+                  <button onClick={() => setExpandedId(isExpanded ? null : finding.id)} className="flex items-center gap-1 min-w-0 text-left text-gray-200">
+                    {isExpanded ? <ChevronDown size={11} className="text-gray-500 shrink-0" /> : <ChevronRight size={11} className="text-gray-500 shrink-0" />}
+                    <span className="truncate">{finding.title}</span>
+                  </button>
+                  {!finding.inDiff && (
+                    <span className="text-[9px] text-gray-600 font-mono shrink-0" title="Outside the diff; posted in the review body instead of inline">outside diff</span>
+                  )}
+                </div>
+                {isExpanded && (
+                  <p className="mt-1.5 ml-6 text-xs text-gray-400 leading-relaxed whitespace-pre-wrap">{finding.body}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
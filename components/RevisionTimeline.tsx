@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AgentMode } from '../types';
+import { FileRevision } from '../services/revisionService';
+import { History, X, RotateCcw, ChevronDown, ChevronRight, Circle } from 'lucide-react';
+
+interface RevisionTimelineProps {
+  fileName: string;
+  revisions: FileRevision[];
+  onRestore: (revision: FileRevision) => void;
+  onClose: () => void;
+}
+
+const modeColors: Record<AgentMode, string> = {
+  [AgentMode.ARCHITECT]: 'text-neon-purple border-neon-purple/30 bg-neon-purple/10',
+  [AgentMode.DEBUG]: 'text-neon-amber border-neon-amber/30 bg-neon-amber/10',
+  [AgentMode.FAST]: 'text-neon-cyan border-neon-cyan/30 bg-neon-cyan/10'
+};
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ fileName, revisions, onRestore, onClose }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-2xl max-h-[80vh] flex flex-col bg-obsidian-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02] shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center border border-white/10 text-neon-cyan shrink-0">
+              <History size={16} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-sm font-bold text-gray-100 uppercase tracking-wider">Revision History</h2>
+              <p className="text-[10px] text-gray-500 font-mono truncate" title={fileName}>{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Timeline (newest first) */}
+        <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+          {revisions.length === 0 ? (
+            <p className="text-xs text-gray-500 font-mono text-center py-8">No recorded changes for this file yet.</p>
+          ) : (
+            <ol className="relative border-l border-white/10 ml-2 space-y-4">
+              {[...revisions].reverse().map(revision => {
+                const isExpanded = expandedId === revision.id;
+                return (
+                  <li key={revision.id} className="ml-4">
+                    <Circle
+                      size={10}
+                      className={`absolute -left-[5.5px] mt-1.5 ${revision.isCurrent ? 'text-neon-emerald fill-current' : 'text-gray-600 fill-obsidian-900'}`}
+                    />
+                    <div className="flex items-center justify-between gap-3">
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                        className="flex items-center gap-2 min-w-0 text-left"
+                      >
+                        {isExpanded ? <ChevronDown size={12} className="text-gray-500" /> : <ChevronRight size={12} className="text-gray-500" />}
+                        <span className="text-xs text-gray-200 truncate">{revision.label}</span>
+                        {revision.mode && (
+                          <span className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border ${modeColors[revision.mode]}`}>{revision.mode}</span>
+                        )}
+                        {revision.isCurrent && (
+                          <span className="text-[9px] font-mono uppercase text-neon-emerald">current</span>
+                        )}
+                      </button>
+                      <div className="flex items-center gap-3 shrink-0">
+                        {revision.timestamp && (
+                          <span className="text-[10px] text-gray-500 font-mono">{new Date(revision.timestamp).toLocaleString()}</span>
+                        )}
+                        {!revision.isCurrent && (
+                          <button
+                            onClick={() => onRestore(revision)}
+                            className="flex items-center gap-1 text-[10px] text-neon-cyan hover:text-white bg-neon-cyan/10 hover:bg-neon-cyan/20 px-2 py-1 rounded border border-neon-cyan/20 transition-colors"
+                          >
+                            <RotateCcw size={10} /> Restore
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {isExpanded && (
+                      <pre className="mt-2 p-3 max-h-64 overflow-auto custom-scrollbar rounded-lg bg-obsidian-950 border border-white/5 text-[11px] font-mono text-gray-400 whitespace-pre">
+                        {revision.content ?? '(file did not exist)'}
+                      </pre>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { UploadPlan, SkipReason, PROJECT_IGNORE_FILE } from '../services/uploadService';
+import { formatBytes } from '../services/storageService';
+import { formatTokens } from '../services/tokenService';
+import { FolderUp, X, ChevronDown, ChevronRight, Plus } from 'lucide-react';
+
+interface UploadSummaryProps {
+  plan: UploadPlan;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const reasonLabels: Record<SkipReason, string> = {
+  ignored: 'Ignored',
+  binary: 'Binary',
+  'too-large': 'Over size limit',
+  unreadable: 'Unreadable'
+};
+
+const REASON_ORDER: SkipReason[] = ['too-large', 'binary', 'unreadable', 'ignored'];
+
+export const UploadSummary: React.FC<UploadSummaryProps> = ({ plan, onConfirm, onCancel }) => {
+  const [openReason, setOpenReason] = useState<SkipReason | null>(null);
+
+  const textBytes = plan.files.filter(f => f.type !== 'image').reduce((sum, f) => sum + f.content.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="relative w-full max-w-2xl max-h-[80vh] flex flex-col bg-obsidian-900 border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-white/5 flex items-center justify-between bg-white/[0.02] shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center border border-white/10 text-neon-cyan">
+              <FolderUp size={16} />
+            </div>
+            <div>
+              <h2 className="text-sm font-bold text-gray-100 uppercase tracking-wider">Upload Summary</h2>
+              <p className="text-[10px] text-gray-500 font-mono">
+                {plan.files.length} to add · {plan.skipped.length} skipped
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+          <p className="text-[11px] text-gray-400 font-mono">
+            {plan.ignoreFiles.length > 0
+              ? <>Applied <span className="text-neon-purple">{plan.ignoreFiles.join(', ')}</span> on top of the default ignores.</>
+              : <>No .gitignore or {PROJECT_IGNORE_FILE} found; only the default ignores (node_modules, build output, .git) applied.</>}
+          </p>
+
+          {REASON_ORDER.map(reason => {
+            const entries = plan.skipped.filter(s => s.reason === reason);
+            if (entries.length === 0) return null;
+            const isOpen = openReason === reason;
+            return (
+              <div key={reason} className="rounded-lg border border-white/10 bg-obsidian-950">
+                <button
+                  onClick={() => setOpenReason(isOpen ? null : reason)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-300 hover:bg-white/[0.03]"
+                >
+                  {isOpen ? <ChevronDown size={12} className="text-gray-500" /> : <ChevronRight size={12} className="text-gray-500" />}
+                  <span className="font-bold uppercase tracking-wider text-[10px]">{reasonLabels[reason]}</span>
+                  <span className="text-gray-500 font-mono text-[10px]">{entries.length} file(s) · {formatBytes(entries.reduce((sum, s) => sum + s.size, 0))}</span>
+                </button>
+                {isOpen && (
+                  <div className="max-h-48 overflow-y-auto custom-scrollbar border-t border-white/5 px-3 py-2 space-y-0.5">
+                    {entries.map(entry => (
+                      <div key={entry.path} className="flex items-center gap-2 text-[11px] font-mono">
+                        <span className="truncate text-gray-400" title={entry.path}>{entry.path}</span>
+                        <span className="text-[9px] text-gray-600 shrink-0 ml-auto">{entry.detail ? `${entry.detail} · ` : ''}{formatBytes(entry.size)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-white/5 bg-white/[0.01] flex items-center gap-4 shrink-0">
+          <span className="flex-1 text-[10px] font-mono text-gray-500">
+            {formatBytes(textBytes)} of text · ~{formatTokens(Math.ceil(textBytes / 4))} tokens
+          </span>
+          <button onClick={onCancel} className="px-4 py-2 text-xs text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={plan.files.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-neon-cyan to-indigo-600 text-obsidian-950 text-xs font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} /> Add {plan.files.length} file(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { WorkspaceMeta } from '../types';
+import { FolderKanban, ChevronDown, Plus, Pencil, Copy, Trash2, Check, Download, Upload, FileText } from 'lucide-react';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceMeta[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExportBundle: () => void;
+  onExportTranscript: (includeReasoning: boolean) => void;
+  onImportBundle: (file: File) => void;
+}
+
+const actionClass = "w-full flex items-center gap-2 px-3 py-1.5 text-xs text-gray-400 hover:text-white hover:bg-white/[0.03] transition-colors";
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete, onExportBundle, onExportTranscript, onImportBundle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const active = workspaces.find(w => w.id === activeId);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const run = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1 rounded-lg bg-white/5 border border-white/5 hover:border-white/10 text-[11px] text-gray-300 transition-colors max-w-[200px]"
+        title="Switch workspace"
+      >
+        <FolderKanban size={12} className="text-neon-cyan shrink-0" />
+        <span className="truncate">{active?.name || 'Workspace'}</span>
+        <ChevronDown size={12} className="text-gray-500 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-obsidian-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden z-50 animate-fade-in">
+          <div className="px-3 py-2 text-[9px] font-bold text-gray-500 uppercase tracking-widest border-b border-white/5">Workspaces</div>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar py-1">
+            {workspaces.map(workspace => {
+              const isActive = workspace.id === activeId;
+              return (
+                <div key={workspace.id} className={`group flex items-center gap-2 px-3 py-1.5 ${isActive ? 'bg-white/5' : 'hover:bg-white/[0.03]'}`}>
+                  <button
+                    onClick={() => run(() => onSwitch(workspace.id))}
+                    className="flex-1 flex items-center gap-2 min-w-0 text-left"
+                  >
+                    <Check size={12} className={isActive ? 'text-neon-emerald shrink-0' : 'invisible shrink-0'} />
+                    <div className="min-w-0">
+                      <div className={`text-xs truncate ${isActive ? 'text-white' : 'text-gray-300'}`}>{workspace.name}</div>
+                      <div className="text-[9px] text-gray-600 font-mono uppercase">{workspace.agentMode} · {new Date(workspace.updatedAt).toLocaleDateString()}</div>
+                    </div>
+                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => run(() => onRename(workspace.id))} className="p-1 text-gray-500 hover:text-white" title="Rename">
+                      <Pencil size={11} />
+                    </button>
+                    <button onClick={() => run(() => onDuplicate(workspace.id))} className="p-1 text-gray-500 hover:text-neon-cyan" title="Duplicate">
+                      <Copy size={11} />
+                    </button>
+                    <button
+                      onClick={() => run(() => onDelete(workspace.id))}
+                      disabled={workspaces.length === 1}
+                      className="p-1 text-gray-500 hover:text-neon-rose disabled:opacity-30 disabled:hover:text-gray-500"
+                      title={workspaces.length === 1 ? 'The last workspace cannot be deleted' : 'Delete'}
+                    >
+                      <Trash2 size={11} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="border-t border-white/5 py-1">
+            <button onClick={() => run(onExportBundle)} className={actionClass} title="Messages, files, revisions and settings as a JSON bundle">
+              <Download size={12} /> Export session bundle
+            </button>
+            <button onClick={() => run(() => onExportTranscript(false))} className={actionClass}>
+              <FileText size={12} /> Export transcript (Markdown)
+            </button>
+            <button onClick={() => run(() => onExportTranscript(true))} className={actionClass}>
+              <FileText size={12} /> Export transcript with reasoning
+            </button>
+            <button onClick={() => run(() => importInputRef.current?.click())} className={actionClass} title="Restores a bundle into a new workspace">
+              <Upload size={12} /> Import session bundle
+            </button>
+          </div>
+          <button
+            onClick={() => run(onCreate)}
+            className="w-full flex items-center gap-2 px-3 py-2 border-t border-white/5 text-xs text-neon-cyan hover:bg-neon-cyan/10 transition-colors"
+          >
+            <Plus size={12} /> New Workspace
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImportBundle(file);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { FileContext } from '../types';
+import { resolveWorkspaceFile } from './patchService';
+
+export interface Citation {
+  path: string; // As written by the model
+  startLine: number;
+  endLine: number;
+  file?: FileContext; // Workspace file the path resolved to
+  error?: string; // Why the citation cannot be followed
+}
+
+// `path/to/file.ext:12` or `:12-18`; the path needs an extension or a slash so `host:8080` is not a citation
+const CITATION_REGEX = /^((?:[\w.@+-]+\/)*[\w@+-][\w.@+-]*\.[\w]+|(?:[\w.@+-]+\/)+[\w.@+-]+):(\d+)(?:-(\d+))?$/;
+
+/**
+ * Parses an inline-code citation and checks it against the workspace. Returns
+ * null when the text is not shaped like a citation at all.
+ */
+export const resolveCitation = (text: string, files: FileContext[]): Citation | null => {
+  const match = text.trim().match(CITATION_REGEX);
+  if (!match) return null;
+
+  const startLine = parseInt(match[2], 10);
+  const endLine = match[3] ? parseInt(match[3], 10) : startLine;
+  const citation: Citation = { path: match[1], startLine, endLine };
+
+  const file = resolveWorkspaceFile(match[1], files);
+  if (!file || file.type === 'image') {
+    return { ...citation, error: `${match[1]} is not in the workspace` };
+  }
+
+  const lineCount = file.content.split('\n').length;
+  if (startLine < 1 || endLine < startLine || endLine > lineCount) {
+    return { ...citation, file, error: `${file.name} has ${lineCount} lines` };
+  }
+  return { ...citation, file };
+};
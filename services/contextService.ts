@@ -0,0 +1,149 @@
+import { FileContext, DependencyGraphData, ContextSelection } from '../types';
+
+export const DEFAULT_CONTEXT_TOP_N = 8;
+
+interface SelectionOptions {
+  topN?: number;
+  pinnedIds?: string[];
+  excludedIds?: string[];
+}
+
+// Weights for the individual relevance signals
+const MENTION_BOOST = 2;
+const NEIGHBOUR_BOOST = 0.75;
+
+// BM25 tuning constants (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'are', 'was', 'what', 'why', 'how',
+  'can', 'you', 'please', 'does', 'not', 'all', 'any', 'but', 'have', 'has', 'its', 'our', 'use',
+  'const', 'let', 'var', 'return', 'import', 'export', 'function', 'new', 'true', 'false', 'null'
+]);
+
+/**
+ * Splits text into lowercase search terms. camelCase and snake_case identifiers
+ * are broken into their parts so `sendMessageToGemini` matches "gemini".
+ */
+const tokenize = (text: string): string[] => {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+};
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+/**
+ * Finds files the prompt refers to explicitly, either by full path or by
+ * file name with extension (e.g. "App.tsx").
+ */
+const findMentionedFiles = (prompt: string, files: FileContext[]): Set<string> => {
+  const lowerPrompt = prompt.toLowerCase();
+  const mentioned = new Set<string>();
+
+  files.forEach(file => {
+    const lowerName = file.name.toLowerCase();
+    const lowerBase = baseName(lowerName);
+    const escaped = lowerBase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    if (lowerPrompt.includes(lowerName) || new RegExp(`(^|[^\\w.-])${escaped}($|[^\\w])`).test(lowerPrompt)) {
+      mentioned.add(file.id);
+    }
+  });
+
+  return mentioned;
+};
+
+const scoreBm25 = (prompt: string, files: FileContext[]): Map<string, number> => {
+  const queryTerms = Array.from(new Set(tokenize(prompt)));
+  const scores = new Map<string, number>();
+  if (queryTerms.length === 0) return scores;
+
+  const docs = files.map(file => {
+    const terms = tokenize(file.type === 'image' ? file.name : `${file.name} ${file.content}`);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    return { id: file.id, length: terms.length, frequencies };
+  });
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(docs.length, 1) || 1;
+
+  queryTerms.forEach(term => {
+    const docFrequency = docs.filter(d => d.frequencies.has(term)).length;
+    if (docFrequency === 0) return;
+    const idf = Math.log(1 + (docs.length - docFrequency + 0.5) / (docFrequency + 0.5));
+
+    docs.forEach(doc => {
+      const tf = doc.frequencies.get(term);
+      if (!tf) return;
+      const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+      scores.set(doc.id, (scores.get(doc.id) || 0) + idf * norm);
+    });
+  });
+
+  return scores;
+};
+
+/**
+ * Ranks workspace files by relevance to a prompt and picks the top N.
+ * Signals: explicit mentions, dependency-graph neighbours of mentioned files
+ * and BM25 keyword scoring. Pinned files are always sent, excluded files never.
+ */
+export const selectRelevantFiles = (
+  prompt: string,
+  files: FileContext[],
+  graph: DependencyGraphData,
+  options: SelectionOptions = {}
+): ContextSelection => {
+  const { topN = DEFAULT_CONTEXT_TOP_N, pinnedIds = [], excludedIds = [] } = options;
+
+  const candidates = files.filter(f => !excludedIds.includes(f.id));
+  const pinned = candidates.filter(f => pinnedIds.includes(f.id));
+  const rankable = candidates.filter(f => !pinnedIds.includes(f.id));
+
+  const scores: Record<string, number> = {};
+
+  // Small workspaces fit entirely; ranking would only drop useful context
+  if (candidates.length <= topN) {
+    return { includedIds: candidates.map(f => f.id), scores };
+  }
+
+  const mentioned = findMentionedFiles(prompt, rankable);
+  const bm25 = scoreBm25(prompt, rankable);
+  const maxBm25 = Math.max(0, ...Array.from(bm25.values())) || 1;
+
+  // Graph nodes are keyed by file name
+  const idByName = new Map(files.map(f => [f.name, f.id]));
+  const neighbours = new Set<string>();
+  graph.links.forEach(link => {
+    const sourceId = idByName.get(link.source);
+    const targetId = idByName.get(link.target);
+    if (!sourceId || !targetId) return;
+    if (mentioned.has(sourceId) || pinnedIds.includes(sourceId)) neighbours.add(targetId);
+    if (mentioned.has(targetId) || pinnedIds.includes(targetId)) neighbours.add(sourceId);
+  });
+
+  rankable.forEach(file => {
+    let score = (bm25.get(file.id) || 0) / maxBm25;
+    if (mentioned.has(file.id)) score += MENTION_BOOST;
+    if (neighbours.has(file.id)) score += NEIGHBOUR_BOOST;
+    scores[file.id] = score;
+  });
+
+  const slots = Math.max(topN - pinned.length, 0);
+  const ranked = rankable
+    .filter(f => scores[f.id] > 0)
+    .sort((a, b) => scores[b.id] - scores[a.id])
+    .slice(0, slots);
+
+  // Nothing matched: fall back to workspace order rather than sending nothing
+  const selected = ranked.length > 0 ? ranked : rankable.slice(0, slots);
+
+  return {
+    includedIds: [...pinned, ...selected].map(f => f.id),
+    scores
+  };
+};
@@ -0,0 +1,126 @@
+export type CredentialName = 'geminiApiKey' | 'githubToken';
+
+export type Credentials = Partial<Record<CredentialName, string>>;
+
+// 'empty': nothing stored yet; 'locked': stored but the passphrase has not been entered this session
+export type VaultStatus = 'empty' | 'locked' | 'unlocked';
+
+interface StoredVault {
+  version: 1;
+  salt: string; // Base64
+  iv: string; // Base64, fresh for every write
+  data: string; // Base64 AES-GCM ciphertext of the credentials JSON
+}
+
+const VAULT_STORAGE_KEY = 'CREDENTIAL_VAULT';
+// Plain-text token written by earlier versions; moved into the vault when it is created
+const LEGACY_GITHUB_TOKEN_KEY = 'GITHUB_TOKEN';
+
+const PBKDF2_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// The derived key stays in memory only, so a reload locks the vault again
+let unlocked: { key: CryptoKey; salt: Uint8Array<ArrayBuffer>; credentials: Credentials } | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readVault = (): StoredVault | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.warn('Failed to read the credential vault:', e);
+    return null;
+  }
+};
+
+const writeVault = async (key: CryptoKey, salt: Uint8Array<ArrayBuffer>, credentials: Credentials) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(credentials)));
+  const vault: StoredVault = { version: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+};
+
+// Drops blank values so that saving '' clears a credential
+const compact = (credentials: Credentials): Credentials =>
+  Object.fromEntries(Object.entries(credentials).filter(([, value]) => value?.trim())) as Credentials;
+
+export const getVaultStatus = (): VaultStatus => unlocked ? 'unlocked' : readVault() ? 'locked' : 'empty';
+
+/**
+ * The credential for the next request, or undefined while the vault is locked
+ * or the credential is not set. Before a vault exists, a GitHub token saved in
+ * plain text by an earlier version is still returned.
+ */
+export const getCredential = (name: CredentialName): string | undefined => {
+  if (unlocked) return unlocked.credentials[name];
+  if (name === 'githubToken' && !readVault()) return localStorage.getItem(LEGACY_GITHUB_TOKEN_KEY) || undefined;
+  return undefined;
+};
+
+/**
+ * Encrypts `credentials` under a new passphrase and leaves the vault unlocked.
+ * Replaces any existing vault and absorbs the legacy plain-text GitHub token.
+ */
+export const createVault = async (passphrase: string, credentials: Credentials = {}) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  const legacyToken = localStorage.getItem(LEGACY_GITHUB_TOKEN_KEY);
+  const initial = compact({ ...(legacyToken && { githubToken: legacyToken }), ...credentials });
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+
+  await writeVault(key, salt, initial);
+  localStorage.removeItem(LEGACY_GITHUB_TOKEN_KEY);
+  unlocked = { key, salt, credentials: initial };
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const vault = readVault();
+  if (!vault) throw new Error('No credentials are stored yet.');
+
+  const salt = fromBase64(vault.salt);
+  const key = await deriveKey(passphrase, salt);
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+    unlocked = { key, salt, credentials: JSON.parse(new TextDecoder().decode(data)) };
+  } catch {
+    // AES-GCM authentication fails for a wrong passphrase and for tampered data alike
+    throw new Error('Wrong passphrase.');
+  }
+};
+
+export const lockVault = () => {
+  unlocked = null;
+};
+
+/**
+ * Merges `changes` into the unlocked vault and re-encrypts it. Blank values
+ * clear the credential.
+ */
+export const updateCredentials = async (changes: Credentials) => {
+  if (!unlocked) throw new Error('Create or unlock the key vault under API Keys first.');
+  const credentials = compact({ ...unlocked.credentials, ...changes });
+  await writeVault(unlocked.key, unlocked.salt, credentials);
+  unlocked = { ...unlocked, credentials };
+};
+
+// Forgets every stored credential, e.g. when the passphrase is lost
+export const deleteVault = () => {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_GITHUB_TOKEN_KEY);
+  unlocked = null;
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FileContext } from '../types';
+import { DEFAULT_DEBUG_PIPELINE, runDebugPipeline } from './debugPipelineService';
+import { setProviderOverride } from './llmProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+const files: FileContext[] = [
+  { id: 'math', name: 'src/math.ts', content: 'export const add = (a: number, b: number): number => a - b;\n', type: 'file' },
+  { id: 'main', name: 'src/main.ts', content: "import { add } from './math';\n\nexport const total: number = add(1, 2);\n", type: 'file' }
+];
+
+const request = { prompt: 'Fix the add function, it subtracts.', files, history: [], relevantFileIds: null };
+
+const edit = (replacement: string) => [
+  'Replacing the operator.',
+  '',
+  '```edit path=src/math.ts',
+  '<<<<<<< SEARCH',
+  'export const add = (a: number, b: number): number => a - b;',
+  '=======',
+  replacement,
+  '>>>>>>> REPLACE',
+  '```'
+].join('\n');
+
+const verdict = (status: 'pass' | 'fail', summary: string) => ({ status, confidence: 0.9, summary, issues: [] });
+
+afterEach(() => {
+  setProviderOverride(null);
+});
+
+describe('runDebugPipeline', () => {
+  it('repairs a draft that fails the type check and stops once an attempt passes', async () => {
+    const provider = createMockProvider([
+      { match: 'Fix the add function', text: edit('export const add = (a: number, b: number): number => a + String(b);') },
+      { match: 'QA reviewer', json: verdict('fail', 'Returns a string.') },
+      { match: 'did not pass', text: edit('export const add = (a: number, b: number): number => a + b;') },
+      { match: 'QA reviewer', json: verdict('pass', 'Adds the operands.') }
+    ]);
+    setProviderOverride(provider);
+    const progress: string[][] = [];
+
+    const result = await runDebugPipeline(request, DEFAULT_DEBUG_PIPELINE, iterations => progress.push(iterations.map(it => it.status)));
+
+    expect(result.iterations.map(it => [it.stage, it.status, it.checks?.verdict])).toEqual([
+      ['draft', 'failed', 'Fail'],
+      ['repair', 'passed', 'Pass']
+    ]);
+    expect(result.iterations[0].checks?.report).toContain('`src/math.ts:1` TS2322');
+    expect(result.answer).toContain('a + b;');
+    expect(progress[progress.length - 1]).toEqual(['failed', 'passed']);
+
+    expect(provider.calls.map(c => c.method)).toEqual(['generate', 'generateStructured', 'generate', 'generateStructured']);
+    const repairPrompt = provider.calls[2].request.contents.at(-1)!.parts.map(p => p.text || '').join('');
+    expect(repairPrompt).toContain('TS2322');
+    expect(repairPrompt).toContain('Returns a string.');
+    expect(provider.calls[2].request.model).toBe(DEFAULT_DEBUG_PIPELINE.stages.repair.model);
+  });
+
+  it('gives up after maxIterations attempts', async () => {
+    const failing = edit('export const add = (a: number, b: number): number => `${a}${b}`;');
+    setProviderOverride(createMockProvider([
+      { match: 'Fix the add function', text: failing },
+      { match: 'did not pass', text: failing },
+      { match: 'QA reviewer', json: verdict('fail', 'Still a string.') },
+      { match: 'QA reviewer', json: verdict('fail', 'Still a string.') }
+    ]));
+
+    const result = await runDebugPipeline(request, { ...DEFAULT_DEBUG_PIPELINE, maxIterations: 2 }, () => {});
+
+    expect(result.iterations.map(it => it.status)).toEqual(['failed', 'failed']);
+    expect(result.iterations[1].verdict?.summary).toBe('Still a string.');
+  });
+
+  it('closes the attempt and rethrows when the model request fails', async () => {
+    setProviderOverride(createMockProvider([{ error: { message: 'API key not valid', kind: 'auth' } }]));
+    const progress: string[][] = [];
+
+    await expect(runDebugPipeline(request, DEFAULT_DEBUG_PIPELINE, iterations => progress.push(iterations.map(it => it.status))))
+      .rejects.toMatchObject({ kind: 'auth' });
+    expect(progress[progress.length - 1]).toEqual(['failed']);
+  });
+});
@@ -0,0 +1,133 @@
+import { AgentMode, DebugIteration, DebugVerdict, FileContext } from '../types';
+import { sendMessageToGemini, splitThinking, judgeDebugAnswer } from './geminiService';
+import { verifyPatches, formatVerificationReport, verificationVerdict } from './verificationService';
+import { HistoryItem } from './historyService';
+
+export type DebugStageName = 'draft' | 'verify' | 'repair';
+
+export interface DebugStageConfig {
+  model: string;
+  thinkingBudget: number;
+}
+
+export interface DebugPipelineConfig {
+  maxIterations: number; // Attempts in total: the draft plus up to maxIterations - 1 repairs
+  runTests: boolean; // Also run affected tests in the sandbox, not just the type check
+  stages: Record<DebugStageName, DebugStageConfig>;
+}
+
+export const DEFAULT_DEBUG_PIPELINE: DebugPipelineConfig = {
+  maxIterations: 3,
+  runTests: false,
+  stages: {
+    draft: { model: 'gemini-3-pro-preview', thinkingBudget: 4096 },
+    verify: { model: 'gemini-3-pro-preview', thinkingBudget: 2048 },
+    repair: { model: 'gemini-3-pro-preview', thinkingBudget: 4096 }
+  }
+};
+
+export const MAX_ITERATION_OPTIONS = [1, 2, 3, 5];
+
+export interface DebugRequest {
+  prompt: string;
+  files: FileContext[];
+  history: HistoryItem[];
+  relevantFileIds: string[] | null;
+}
+
+export interface DebugRunResult {
+  answer: string;
+  iterations: DebugIteration[];
+}
+
+const describeVerdict = (verdict: DebugVerdict) => [
+  `Reviewer verdict: ${verdict.status} (confidence ${Math.round(verdict.confidence * 100)}%). ${verdict.summary}`,
+  ...verdict.issues.map(issue => `- [${issue.severity}]${issue.path ? ` \`${issue.path}${issue.line ? `:${issue.line}` : ''}\`` : ''} ${issue.description}`)
+].join('\n');
+
+const buildRepairPrompt = (previous: DebugIteration) => `
+Your proposed solution was applied to the workspace and reviewed. It did not pass.
+
+Automatic checks (line numbers refer to the files after your edits):
+${previous.checks?.report || '(none)'}
+
+${previous.verdict ? describeVerdict(previous.verdict) : ''}
+
+Please REWRITE the solution to fix these specific problems. Write the edits against the ORIGINAL files in context and provide the complete, corrected code.
+`;
+
+/**
+ * Runs the DEBUG pipeline: a draft, then verify→repair rounds until an attempt
+ * passes or `maxIterations` attempts have been made. Each attempt is checked
+ * for real (see verifyPatches) and then judged by the verify stage; it passes
+ * only if the checks do not fail and the verdict is `pass`.
+ *
+ * `onProgress` receives the whole iteration list after every stage, so callers
+ * can render it as a live timeline. Aborting `signal` stops at the next stage.
+ * A failed draft or repair request throws its AgentError.
+ */
+export const runDebugPipeline = async (
+  request: DebugRequest,
+  config: DebugPipelineConfig,
+  onProgress: (iterations: DebugIteration[]) => void,
+  signal?: AbortSignal
+): Promise<DebugRunResult> => {
+  const { prompt, files, history, relevantFileIds } = request;
+  let iterations: DebugIteration[] = [];
+
+  const update = (index: number, changes: Partial<DebugIteration>) => {
+    iterations = iterations.map(it => it.index === index ? { ...it, ...changes } : it);
+    onProgress(iterations);
+  };
+
+  let previousRaw = '';
+  for (let index = 0; index < Math.max(config.maxIterations, 1); index++) {
+    const stage = index === 0 ? 'draft' : 'repair';
+    const { model, thinkingBudget } = config.stages[stage];
+    iterations = [...iterations, { index, stage, model, status: 'generating', startedAt: Date.now() }];
+    onProgress(iterations);
+
+    // Repairs see the original request and only the attempt they are fixing
+    let raw: string;
+    try {
+      raw = await sendMessageToGemini(
+        index === 0 ? prompt : buildRepairPrompt(iterations[index - 1]),
+        AgentMode.ARCHITECT,
+        files,
+        index === 0 ? history : [...history, { role: 'user', parts: [{ text: prompt }] }, { role: 'model', parts: [{ text: previousRaw }] }],
+        relevantFileIds,
+        thinkingBudget,
+        signal,
+        model
+      );
+    } catch (error) {
+      // Close the attempt so the timeline does not keep spinning next to the error
+      if (!signal?.aborted) update(index, { status: 'failed', finishedAt: Date.now() });
+      throw error;
+    }
+    previousRaw = raw;
+    const { text, thoughts } = splitThinking(raw);
+    update(index, { answer: text, thoughts, status: 'checking' });
+
+    const result = await verifyPatches(text, files, { runTests: config.runTests, signal });
+    signal?.throwIfAborted();
+    const checks = { verdict: verificationVerdict(result), report: formatVerificationReport(result) };
+    update(index, { checks, status: 'judging' });
+
+    let verdict: DebugVerdict | undefined;
+    let verdictError: string | undefined;
+    try {
+      verdict = await judgeDebugAnswer(prompt, text, checks.report, files, relevantFileIds, config.stages.verify, signal);
+    } catch (e) {
+      signal?.throwIfAborted();
+      verdictError = e instanceof Error ? e.message : String(e);
+    }
+
+    const passed = checks.verdict !== 'Fail' && (verdict ? verdict.status === 'pass' : true);
+    update(index, { verdict, verdictError, status: passed ? 'passed' : 'failed', finishedAt: Date.now() });
+    if (passed) break;
+  }
+
+  const last = iterations[iterations.length - 1];
+  return { answer: last.answer || '', iterations };
+};
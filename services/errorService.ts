@@ -0,0 +1,252 @@
+import { ErrorKind, MessageError } from '../types';
+
+/**
+ * Base of every error the services throw on purpose. `kind` drives how the UI
+ * presents it and whether the retry policy may try again.
+ */
+export class AgentError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryAfterMs?: number; // Delay the server asked for, when it said
+  readonly status?: number; // HTTP status, when there was a response
+
+  constructor(kind: ErrorKind, message: string, options: { retryAfterMs?: number; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AgentError';
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+    this.status = options.status;
+  }
+}
+
+export class QuotaError extends AgentError {
+  constructor(message: string, options?: { retryAfterMs?: number; status?: number; cause?: unknown }) {
+    super('quota', message, options);
+  }
+}
+
+export class AuthError extends AgentError {
+  constructor(message: string, options?: { status?: number; cause?: unknown }) {
+    super('auth', message, options);
+  }
+}
+
+export class NetworkError extends AgentError {
+  constructor(message: string, options?: { retryAfterMs?: number; status?: number; cause?: unknown }) {
+    super('network', message, options);
+  }
+}
+
+export class SafetyBlockedError extends AgentError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('safety', message, options);
+  }
+}
+
+export class InvalidInputError extends AgentError {
+  constructor(message: string, options?: { status?: number; cause?: unknown }) {
+    super('invalid-input', message, options);
+  }
+}
+
+export class CancelledError extends AgentError {
+  constructor(message = 'The request was cancelled.') {
+    super('cancelled', message);
+  }
+}
+
+/**
+ * Server-requested wait in ms, read from Gemini's RetryInfo detail or a
+ * "retry in Ns" message. 0 when the error does not say.
+ */
+export const getRetryDelay = (error: any): number => {
+  if (error instanceof AgentError) return error.retryAfterMs ?? 0;
+  const actualError = error?.error || error;
+
+  if (actualError?.details && Array.isArray(actualError.details)) {
+    const retryInfo = actualError.details.find((d: any) => d['@type'] && d['@type'].includes('RetryInfo'));
+    if (retryInfo && retryInfo.retryDelay) {
+      const seconds = parseInt(retryInfo.retryDelay.replace('s', ''), 10);
+      if (!isNaN(seconds)) return (seconds + 1) * 1000;
+    }
+  }
+
+  const message = actualError?.message || '';
+  const match = message.match(/retry in (\d+(\.\d+)?)s/);
+  if (match && match[1]) {
+    return (parseFloat(match[1]) + 1) * 1000;
+  }
+
+  return 0;
+};
+
+/**
+ * Maps an HTTP status to the matching error type.
+ */
+export const errorForStatus = (status: number, message: string, retryAfterMs?: number): AgentError => {
+  if (status === 429) return new QuotaError(message, { status, retryAfterMs });
+  if (status === 401 || status === 403) return new AuthError(message, { status });
+  if (status === 400 || status === 404 || status === 413 || status === 422) return new InvalidInputError(message, { status });
+  if (status === 503) return new QuotaError(message, { status, retryAfterMs });
+  if (status >= 500) return new NetworkError(message, { status, retryAfterMs });
+  return new AgentError('unknown', message, { status });
+};
+
+const NETWORK_MESSAGE_REGEX = /failed to fetch|networkerror|network request failed|load failed|fetch failed|ECONNREFUSED|ETIMEDOUT/i;
+
+/**
+ * Classifies anything thrown by a provider, fetch or the SDK. Errors that are
+ * already typed pass through; an aborted `signal` always means cancelled.
+ */
+export const toAgentError = (error: unknown, signal?: AbortSignal): AgentError => {
+  if (error instanceof AgentError) return error;
+  if (signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')) return new CancelledError();
+
+  const actualError: any = (error as any)?.error || error;
+  const message: string = actualError?.message || (typeof error === 'string' ? error : 'Unknown error occurred');
+  const status = typeof actualError?.status === 'number' ? actualError.status
+    : typeof actualError?.code === 'number' ? actualError.code
+    : undefined;
+  const statusText = typeof actualError?.status === 'string' ? actualError.status : '';
+
+  if (status === 429 || statusText === 'RESOURCE_EXHAUSTED' || /\b429\b|Quota exceeded|RESOURCE_EXHAUSTED/.test(message)) {
+    return new QuotaError(message, { status, retryAfterMs: getRetryDelay(error), cause: error });
+  }
+  if (statusText === 'UNAUTHENTICATED' || statusText === 'PERMISSION_DENIED' || /API key not valid|API_KEY_INVALID/.test(message)) {
+    return new AuthError(message, { status, cause: error });
+  }
+  if (status !== undefined) {
+    const typed = errorForStatus(status, message, getRetryDelay(error));
+    return Object.assign(typed, { cause: error });
+  }
+  if (error instanceof TypeError && NETWORK_MESSAGE_REGEX.test(message)) {
+    return new NetworkError(`Could not reach the server: ${message}`, { cause: error });
+  }
+  return new AgentError('unknown', message, { cause: error });
+};
+
+/**
+ * Serializable form stored on a chat message. `retryable` says whether trying
+ * the same request again can help without changing anything first.
+ */
+export const toMessageError = (error: AgentError): MessageError => ({
+  kind: error.kind,
+  message: error.message,
+  retryable: error.kind === 'quota' || error.kind === 'network' || error.kind === 'unknown'
+});
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first
+  baseDelayMs: number; // Backoff before the second attempt; doubles after that
+  maxDelayMs: number; // Cap on a single computed backoff
+  maxElapsedMs: number; // No retry is started that would end past this budget
+  jitter: number; // 0-1; share of each delay that is randomized
+  retryOn: ErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 2000,
+  maxDelayMs: 30_000,
+  maxElapsedMs: 120_000,
+  jitter: 0.3,
+  retryOn: ['quota', 'network']
+};
+
+/**
+ * Wait before attempt `attempt + 1`, or null when the policy gives up. A delay
+ * the server asked for replaces the backoff but still gets jitter.
+ */
+export const nextRetryDelay = (error: AgentError, attempt: number, startedAt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number | null => {
+  if (!policy.retryOn.includes(error.kind) || attempt >= policy.maxAttempts) return null;
+
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+  const base = getRetryDelay(error) || backoff;
+  const delay = Math.round(base * (1 - policy.jitter / 2 + Math.random() * policy.jitter));
+
+  return Date.now() - startedAt + delay > policy.maxElapsedMs ? null : delay;
+};
+
+/**
+ * Resolves after `ms`, or rejects with CancelledError as soon as `signal`
+ * aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new CancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface CircuitBreaker {
+  // Throws NetworkError while open; lets one trial request through once the cooldown ends
+  check: () => void;
+  recordSuccess: () => void;
+  recordFailure: (error: AgentError) => void;
+}
+
+/**
+ * Stops calling a service after `failureThreshold` consecutive quota or
+ * network failures, for `cooldownMs`. Auth and input errors do not count:
+ * they say nothing about whether the service is up.
+ */
+export const createCircuitBreaker = (service: string, failureThreshold = 5, cooldownMs = 30_000): CircuitBreaker => {
+  let failures = 0;
+  let openUntil = 0;
+
+  return {
+    check: () => {
+      const remaining = openUntil - Date.now();
+      if (remaining > 0) {
+        throw new NetworkError(
+          `Paused requests to ${service} for ${Math.ceil(remaining / 1000)}s after ${failures} failures in a row.`,
+          { retryAfterMs: remaining }
+        );
+      }
+    },
+    recordSuccess: () => {
+      failures = 0;
+      openUntil = 0;
+    },
+    recordFailure: (error) => {
+      if (error.kind !== 'quota' && error.kind !== 'network') return;
+      failures++;
+      if (failures >= failureThreshold) openUntil = Date.now() + cooldownMs;
+    }
+  };
+};
+
+/**
+ * Runs `operation` under the retry policy and circuit breaker. Anything it
+ * throws is classified with toAgentError; the final failure is rethrown typed.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: { policy?: RetryPolicy; breaker?: CircuitBreaker; signal?: AbortSignal; label?: string } = {}
+): Promise<T> => {
+  const { policy = DEFAULT_RETRY_POLICY, breaker, signal, label = 'Request' } = options;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    breaker?.check();
+    try {
+      const result = await operation(attempt);
+      breaker?.recordSuccess();
+      return result;
+    } catch (error) {
+      const agentError = toAgentError(error, signal);
+      if (agentError.kind === 'cancelled') throw agentError;
+      breaker?.recordFailure(agentError);
+
+      const delay = nextRetryDelay(agentError, attempt, startedAt, policy);
+      if (delay === null) throw agentError;
+      console.warn(`${label} failed (${agentError.kind}). Waiting ${delay}ms before retry (Attempt ${attempt + 1}/${policy.maxAttempts})`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -1,15 +1,12 @@
 // services/geminiService.ts
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { AgentMode, FileContext } from '../types';
-
-// FIX: Use Vite standard for environment variables
-const apiKey = import.meta.env.GEMINI_API_KEY || '';
-
-if (!apiKey) {
-  console.error("CRITICAL: VITE_GEMINI_API_KEY is missing. AI features will fail.");
-}
-
-const ai = new GoogleGenAI({ apiKey: apiKey });
+// Prompts, retries and response handling for the agent. Requests go to the
+// active provider (see llmProvider.ts), which is Gemini unless configured otherwise.
+import { AgentMode, DebugVerdict, FileContext, ReviewSeverity, StreamChunk } from '../types';
+import { HistoryItem } from './historyService';
+import { numberLines } from './patchService';
+import { getModelForMode, getModelInfo, clampBudget } from './modelService';
+import { getProvider, LlmContent, LlmPart, LlmRequest, JsonSchema } from './llmProvider';
+import { AgentError, AuthError, DEFAULT_RETRY_POLICY, RetryPolicy, createCircuitBreaker, nextRetryDelay, sleep, toAgentError, withRetry } from './errorService';
 
 const SYSTEM_INSTRUCTION = `
 You are CodeAgent X, an elite autonomous senior software engineer and architect. 
@@ -35,58 +32,47 @@ Guidelines:
   - Example: <thinking>The error implies a race condition. I see a useEffect in App.tsx that doesn't clean up...</thinking>
 
 When generating code, wrap it in markdown code blocks with the language specified.
-`;
-
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const getRetryDelay = (error: any): number => {
-  const actualError = error.error || error;
 
-  if (actualError.details && Array.isArray(actualError.details)) {
-    const retryInfo = actualError.details.find((d: any) => d['@type'] && d['@type'].includes('RetryInfo'));
-    if (retryInfo && retryInfo.retryDelay) {
-      const seconds = parseInt(retryInfo.retryDelay.replace('s', ''), 10);
-      if (!isNaN(seconds)) return (seconds + 1) * 1000;
-    }
-  }
+File Edits:
+When you change files that exist in the workspace (or create new ones), do NOT paste whole files. Emit one \`edit\` block per file with its full workspace path, containing one or more SEARCH/REPLACE sections:
+\`\`\`edit path=src/services/example.ts
+<<<<<<< SEARCH
+exact lines copied from the current file
+=======
+the replacement lines
+>>>>>>> REPLACE
+\`\`\`
+- SEARCH must match the current file exactly and include enough lines to be unique.
+- For a new file, leave the SEARCH section empty.
+- Unified diffs in a \`diff\` block with \`--- a/path\` and \`+++ b/path\` headers are also accepted.
+- The \`12| \` line number prefixes in CODE blocks are not part of the file; never copy them into SEARCH or REPLACE.
+
+Citations:
+Every line in a CODE block is prefixed with its line number. Whenever you refer to specific code, cite it as inline code in the form \`path:line\` or \`path:start-end\`, using the full workspace path (e.g. \`src/services/example.ts:42\` or \`App.tsx:120-134\`). Only cite lines you were shown.
+`;
 
-  const message = actualError.message || '';
-  const match = message.match(/retry in (\d+(\.\d+)?)s/);
-  if (match && match[1]) {
-    return (parseFloat(match[1]) + 1) * 1000;
-  }
+// Shared by every model call, so a struggling provider is paused for all of them
+const providerBreaker = createCircuitBreaker('the model provider');
 
-  return 0;
-};
+// Structured calls back drafts and reviews the user is waiting on; give up sooner
+const STRUCTURED_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 4 };
 
-export const sendMessageToGemini = async (
+/**
+ * Builds the provider request shared by the blocking and streaming calls.
+ * `model` overrides the mode's default model.
+ */
+const buildRequest = (
   prompt: string,
   mode: AgentMode,
   contextFiles: FileContext[],
-  history: { role: string; parts: { text: string }[] }[],
-  relevantFileIds: string[] | null = null,
-  thinkingBudget: number = 0
-): Promise<string> => {
-
-  if (!apiKey) {
-    return "Configuration Error: API Key missing. Please check your .env.local file.";
-  }
-
-  // Update model names to match latest availability
-  const modelName = mode === AgentMode.ARCHITECT
-    ? 'gemini-3-pro-preview'
-    : 'gemini-2.0-flash';
-
-  const config: any = {
-    systemInstruction: SYSTEM_INSTRUCTION,
-  };
-
-  // Only apply thinking budget if supported by the specific model variant
-  if (thinkingBudget > 0 && modelName.includes('thinking')) {
-    config.thinkingConfig = { thinkingBudget };
-  }
+  history: HistoryItem[],
+  relevantFileIds: string[] | null,
+  thinkingBudget: number,
+  model?: string
+): LlmRequest => {
+  const modelInfo = model ? getModelInfo(model) : getModelForMode(mode);
 
-  const contents: any[] = [];
+  const contents: LlmContent[] = [];
 
   // 1. Add History
   if (history && history.length > 0) {
@@ -99,7 +85,7 @@ export const sendMessageToGemini = async (
   }
 
   // 2. Add Current Request (with file context)
-  const currentParts: any[] = [];
+  const currentParts: LlmPart[] = [];
 
   const filesToInclude = relevantFileIds
     ? contextFiles.filter(f => relevantFileIds.includes(f.id))
@@ -120,8 +106,10 @@ export const sendMessageToGemini = async (
         currentParts.push({ text: `\n[Context Image: ${file.name}]\n` });
       } else {
         const prefix = file.type === 'log' ? 'LOGS' : file.type === 'metric' ? 'METRICS' : file.type === 'issue' ? 'REPORT' : 'CODE';
+        // Code is numbered so answers can cite `path:line`
+        const body = prefix === 'CODE' ? numberLines(file.content) : file.content;
         currentParts.push({
-          text: `\n--- START OF ${prefix} (${file.name}) ---\n${file.content}\n--- END OF ${prefix} ---\n`
+          text: `\n--- START OF ${prefix} (${file.name}) ---\n${body}\n--- END OF ${prefix} ---\n`
         });
       }
     });
@@ -130,78 +118,392 @@ export const sendMessageToGemini = async (
   currentParts.push({ text: prompt });
   contents.push({ role: 'user', parts: currentParts });
 
-  let retries = 0;
-  const MAX_RETRIES = 5;
-
-  while (retries <= MAX_RETRIES) {
-    try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: modelName,
-        contents: contents,
-        config: config
-      });
+  return {
+    model: modelInfo.id,
+    systemInstruction: SYSTEM_INSTRUCTION,
+    contents,
+    // Models without thinking reject a budget; the others get it clamped to their range
+    thinkingBudget: modelInfo.supportsThinking ? clampBudget(modelInfo, thinkingBudget) : undefined
+  };
+};
 
-      if (!response.candidates || response.candidates.length === 0) {
-        return "I analyzed the input but no response candidates were generated.";
+/**
+ * Splits streamed answer text on the <thinking>...</thinking> convention from
+ * SYSTEM_INSTRUCTION. A tag can arrive split across chunks, so any trailing
+ * fragment that could still become a tag is held back until the next push.
+ */
+const createThinkingTagSplitter = () => {
+  let buffer = '';
+  let inThinking = false;
+
+  const push = (text: string): StreamChunk[] => {
+    buffer += text;
+    const chunks: StreamChunk[] = [];
+
+    while (buffer) {
+      const kind: StreamChunk['kind'] = inThinking ? 'thought' : 'answer';
+      const tag = inThinking ? '</thinking>' : '<thinking>';
+      const index = buffer.indexOf(tag);
+
+      if (index !== -1) {
+        if (index > 0) chunks.push({ kind, text: buffer.slice(0, index) });
+        buffer = buffer.slice(index + tag.length);
+        inThinking = !inThinking;
+        continue;
       }
 
-      const candidate = response.candidates[0];
-      let fullResponseText = "";
-
-      // Manually extract and wrap thoughts if present in the parts (new thinking models)
-      const thoughtParts = candidate.content?.parts?.filter(p => p.thought);
-      if (thoughtParts && thoughtParts.length > 0) {
-        const thoughts = thoughtParts.map(p => p.text).filter(Boolean).join('\n');
-        if (thoughts) {
-          fullResponseText += `<thinking>\n${thoughts}\n</thinking>\n\n`;
+      let held = 0;
+      for (let i = Math.min(tag.length - 1, buffer.length); i > 0; i--) {
+        if (tag.startsWith(buffer.slice(-i))) {
+          held = i;
+          break;
         }
       }
 
-      // Add the final textual answer
-      fullResponseText += response.text || "";
+      const ready = buffer.slice(0, buffer.length - held);
+      if (ready) chunks.push({ kind, text: ready });
+      buffer = buffer.slice(buffer.length - held);
+      break;
+    }
 
-      return fullResponseText || "I analyzed the input but could not generate a textual response.";
+    return chunks;
+  };
 
-    } catch (error: any) {
-      const actualError = error.error || error;
+  const flush = (): StreamChunk[] => {
+    const rest = buffer;
+    buffer = '';
+    return rest ? [{ kind: inThinking ? 'thought' : 'answer', text: rest }] : [];
+  };
 
-      const status = actualError?.status;
-      const code = actualError?.code;
-      const message = actualError?.message || '';
+  return { push, flush };
+};
 
-      const isQuotaError =
-        status === 429 ||
-        code === 429 ||
-        status === 503 ||
-        status === 'RESOURCE_EXHAUSTED' ||
-        message.includes('429') ||
-        message.includes('Quota exceeded') ||
-        message.includes('RESOURCE_EXHAUSTED');
+/**
+ * Blocking request. Failures throw a typed AgentError (see errorService) after
+ * the shared retry policy gives up; an aborted `signal` throws CancelledError.
+ */
+export const sendMessageToGemini = async (
+  prompt: string,
+  mode: AgentMode,
+  contextFiles: FileContext[],
+  history: HistoryItem[],
+  relevantFileIds: string[] | null = null,
+  thinkingBudget: number = 0,
+  signal?: AbortSignal,
+  model?: string
+): Promise<string> => {
+
+  const provider = getProvider();
+  const configurationError = provider.configurationError();
+  if (configurationError) {
+    throw new AuthError(configurationError);
+  }
+
+  const request = buildRequest(prompt, mode, contextFiles, history, relevantFileIds, thinkingBudget, model);
 
-      if (isQuotaError && retries < MAX_RETRIES) {
-        retries++;
+  const { text, thoughts } = await withRetry(
+    () => provider.generate({ ...request, signal }),
+    { breaker: providerBreaker, signal, label: 'Model request' }
+  );
 
-        let delay = getRetryDelay(error);
+  // Native thoughts are wrapped in the same tags the prompt asks for, so callers handle both alike
+  const fullResponseText = (thoughts ? `<thinking>\n${thoughts}\n</thinking>\n\n` : '') + text;
 
-        if (delay === 0) {
-          delay = 2000 * Math.pow(2, retries);
+  return fullResponseText || "I analyzed the input but could not generate a textual response.";
+};
+
+/**
+ * Exact prompt size according to the active provider, for when the client-side
+ * estimate is close to the context window. Falls back to null on failure.
+ */
+export const countPromptTokens = async (
+  prompt: string,
+  mode: AgentMode,
+  contextFiles: FileContext[],
+  history: HistoryItem[],
+  relevantFileIds: string[] | null
+): Promise<number | null> => {
+  try {
+    return await getProvider().countTokens(buildRequest(prompt, mode, contextFiles, history, relevantFileIds, 0));
+  } catch (error) {
+    console.warn("Token count failed, using the estimate:", error);
+    return null;
+  }
+};
+
+/**
+ * Separates the <thinking>...</thinking> section of a blocking answer from the
+ * answer itself.
+ */
+export const splitThinking = (fullText: string): { text: string; thoughts?: string } => {
+  const thinkingMatch = fullText.match(/<thinking>([\s\S]*?)<\/thinking>/);
+  if (thinkingMatch) {
+    const thoughts = thinkingMatch[1].trim();
+    const text = fullText.replace(/<thinking>[\s\S]*?<\/thinking>/, '').trim();
+    return { text, thoughts };
+  }
+  return { text: fullText };
+};
+
+/**
+ * Streaming variant of sendMessageToGemini. Yields reasoning and answer text as
+ * separate chunks while the model generates them. Aborting `signal` stops the
+ * stream quietly; whatever was yielded before that point is left to the caller.
+ * Other failures throw an AgentError, possibly after some chunks were yielded.
+ */
+export async function* streamMessageFromGemini(
+  prompt: string,
+  mode: AgentMode,
+  contextFiles: FileContext[],
+  history: HistoryItem[],
+  relevantFileIds: string[] | null = null,
+  thinkingBudget: number = 0,
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> {
+
+  const provider = getProvider();
+  const configurationError = provider.configurationError();
+  if (configurationError) {
+    throw new AuthError(configurationError);
+  }
+
+  const request = buildRequest(prompt, mode, contextFiles, history, relevantFileIds, thinkingBudget);
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    providerBreaker.check();
+    // Retrying is only safe until the first chunk has reached the caller
+    let hasYielded = false;
+
+    try {
+      const splitter = createThinkingTagSplitter();
+
+      for await (const part of provider.stream({ ...request, signal })) {
+        if (signal?.aborted) return;
+
+        const chunks = part.kind === 'thought' ? [part] : splitter.push(part.text);
+
+        for (const chunk of chunks) {
+          hasYielded = true;
+          yield chunk;
         }
+      }
 
-        console.warn(`Gemini API Quota/Rate Limit. Waiting ${delay}ms before retry (Attempt ${retries}/${MAX_RETRIES})`);
-        await wait(delay);
-        continue;
+      for (const chunk of splitter.flush()) {
+        hasYielded = true;
+        yield chunk;
       }
 
-      console.error("Gemini API Error:", error);
+      if (!hasYielded) {
+        yield { kind: 'answer', text: "I analyzed the input but could not generate a textual response." };
+      }
+      providerBreaker.recordSuccess();
+      return;
+
+    } catch (error) {
+      if (signal?.aborted) return;
+
+      const agentError = toAgentError(error);
+      providerBreaker.recordFailure(agentError);
+      const delay = hasYielded ? null : nextRetryDelay(agentError, attempt, startedAt);
+      if (delay === null) {
+        console.error("Model stream failed:", error);
+        throw agentError;
+      }
 
-      if (isQuotaError) {
-        return `Error: System overloaded or quota exceeded. The model asked to wait, but retries were exhausted after ${retries} attempts. \n\nTip: Try switching to **FAST** mode which has higher limits.`;
+      console.warn(`Model stream failed (${agentError.kind}). Waiting ${delay}ms before retry (Attempt ${attempt + 1}/${DEFAULT_RETRY_POLICY.maxAttempts})`);
+      try {
+        await sleep(delay, signal);
+      } catch {
+        return;
       }
+    }
+  }
+}
 
-      const errorMessage = actualError instanceof Error ? actualError.message : (message || "Unknown error occurred");
-      return `Error: ${errorMessage}`;
+/**
+ * Runs a non-streaming request whose answer must match `schema` and returns
+ * the parsed JSON. Retries per STRUCTURED_RETRY_POLICY, then throws an
+ * AgentError.
+ */
+const generateStructured = async <T>(request: LlmRequest, schema: JsonSchema, signal?: AbortSignal): Promise<T> => {
+  const provider = getProvider();
+  const configurationError = provider.configurationError();
+  if (configurationError) {
+    throw new AuthError(configurationError);
+  }
+
+  return withRetry(async () => {
+    try {
+      return await provider.generateStructured<T>({ ...request, signal }, schema);
+    } catch (error) {
+      if (error instanceof SyntaxError) throw new AgentError('unknown', "The model returned malformed JSON.", { cause: error });
+      throw error;
+    }
+  }, { policy: STRUCTURED_RETRY_POLICY, breaker: providerBreaker, signal, label: 'Structured request' });
+};
+
+export interface PullRequestText {
+  title: string;
+  body: string;
+}
+
+/**
+ * Drafts a pull request title and description from the conversation that
+ * produced the changes. Throws on failure so the caller can fall back to
+ * manual entry.
+ */
+export const generatePullRequestText = async (transcript: string, changedPaths: string[]): Promise<PullRequestText> => {
+  const prompt = `Write a GitHub pull request title and description for the changes below.
+The title is imperative and under 72 characters. The description is Markdown: a short summary of what changed and why, then a bullet list of notable changes. Base it only on the conversation; do not invent tests or results.
+
+Changed files:
+${changedPaths.map(p => `- ${p}`).join('\n')}
+
+Conversation that produced the changes:
+${transcript}`;
+
+  const parsed = await generateStructured<Partial<PullRequestText>>(
+    { model: getModelForMode(AgentMode.FAST).id, contents: [{ role: 'user', parts: [{ text: prompt }] }] },
+    {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        body: { type: 'string' }
+      },
+      required: ['title', 'body']
     }
+  );
+
+  if (typeof parsed.title !== 'string' || typeof parsed.body !== 'string') {
+    throw new Error("The model returned an incomplete pull request description.");
   }
+  return { title: parsed.title.trim(), body: parsed.body.trim() };
+};
+
+export interface RawReviewFinding {
+  path: string;
+  line: number;
+  severity: ReviewSeverity;
+  title: string;
+  body: string;
+}
+
+/**
+ * ARCHITECT-mode review of a pull request. `annotatedDiff` carries head-side
+ * line numbers (see annotateUnifiedDiff) so findings can cite exact lines;
+ * `baseFiles` give the surrounding code.
+ */
+export const reviewPullRequestDiff = async (
+  title: string,
+  description: string,
+  annotatedDiff: string,
+  baseFiles: FileContext[],
+  thinkingBudget: number,
+  signal?: AbortSignal
+): Promise<{ summary: string; findings: RawReviewFinding[] }> => {
+  const prompt = `Review this pull request as a senior engineer.
+
+Title: ${title}
+Description:
+${description || '(none)'}
+
+The diff is below. Each new-version line is prefixed with its line number in the changed file; removed lines have no number. The base versions of the modified files are attached above for context; their line numbers refer to the base version, so take finding line numbers from the diff.
+
+${annotatedDiff}
+
+Report concrete problems: bugs, security issues, race conditions, error handling gaps, performance issues and maintainability concerns. For each finding give the file path, the new-version line number it applies to (prefer lines that appear in the diff), a severity (critical, major, minor or nit), a short title and an explanation with a suggested fix. Do not report style preferences as major. Return an empty list if the change looks correct. The summary is a short overall assessment in Markdown.`;
+
+  const request = buildRequest(prompt, AgentMode.ARCHITECT, baseFiles, [], null, thinkingBudget);
+
+  const parsed = await generateStructured<{ summary?: string; findings?: RawReviewFinding[] }>(request, {
+    type: 'object',
+    properties: {
+      summary: { type: 'string' },
+      findings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            line: { type: 'integer' },
+            severity: { type: 'string', enum: ['critical', 'major', 'minor', 'nit'] },
+            title: { type: 'string' },
+            body: { type: 'string' }
+          },
+          required: ['path', 'line', 'severity', 'title', 'body']
+        }
+      }
+    },
+    required: ['summary', 'findings']
+  }, signal);
+
+  return {
+    summary: (parsed.summary || '').trim(),
+    findings: Array.isArray(parsed.findings) ? parsed.findings : []
+  };
+};
+
+/**
+ * Verify stage of the DEBUG pipeline: judges a proposed fix against the
+ * original request and the results of actually type-checking and testing it.
+ * The checks are authoritative for whether the code compiles and passes; the
+ * model judges whether the fix addresses the problem.
+ */
+export const judgeDebugAnswer = async (
+  request: string,
+  answer: string,
+  checkReport: string,
+  contextFiles: FileContext[],
+  relevantFileIds: string[] | null,
+  stage: { model: string; thinkingBudget: number },
+  signal?: AbortSignal
+): Promise<DebugVerdict> => {
+  const prompt = `Act as the QA reviewer for a proposed bug fix.
+
+Original request:
+${request}
+
+Proposed solution:
+${answer}
+
+The edits were applied to a copy of the workspace and checked automatically:
+${checkReport || '(no checks ran)'}
+
+Decide whether the solution fully addresses the request. Treat the automatic results as ground truth: any new type error or failing test is a failure. Also look for logic errors, unhandled edge cases, race conditions and regressions the checks cannot catch. List each concrete issue with a severity (critical, major, minor or nit) and, where possible, the file path and line. Confidence is between 0 and 1. The summary is one or two sentences.`;
+
+  const verifyRequest = buildRequest(prompt, AgentMode.ARCHITECT, contextFiles, [], relevantFileIds, stage.thinkingBudget, stage.model);
+
+  const parsed = await generateStructured<Partial<DebugVerdict>>(verifyRequest, {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['pass', 'fail'] },
+      confidence: { type: 'number' },
+      summary: { type: 'string' },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            severity: { type: 'string', enum: ['critical', 'major', 'minor', 'nit'] },
+            description: { type: 'string' },
+            path: { type: 'string' },
+            line: { type: 'integer' }
+          },
+          required: ['severity', 'description']
+        }
+      }
+    },
+    required: ['status', 'confidence', 'summary', 'issues']
+  }, signal);
 
-  return "Error: Failed to connect to Gemini API after multiple attempts.";
-};
\ No newline at end of file
+  if (parsed.status !== 'pass' && parsed.status !== 'fail') {
+    throw new Error("The model returned an incomplete verdict.");
+  }
+  return {
+    status: parsed.status,
+    confidence: Math.min(Math.max(Number(parsed.confidence) || 0, 0), 1),
+    summary: (parsed.summary || '').trim(),
+    issues: Array.isArray(parsed.issues) ? parsed.issues : []
+  };
+};
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchGithubIssue } from './githubService';
+import { InvalidInputError } from './errorService';
+
+const API = 'https://api.github.com/repos/acme/widgets';
+
+type Route = { body: unknown; status?: number; next?: string };
+
+/**
+ * Stubs fetch with a table of API responses keyed by URL (query included).
+ * List endpoints are requested with `per_page=100`; `next` becomes a Link header.
+ */
+const stubGithub = (routes: Record<string, Route>) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    const route = routes[url];
+    if (!route) return new Response('{}', { status: 404 });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (route.next) headers['Link'] = `<${route.next}>; rel="next", <${route.next}>; rel="last"`;
+    return new Response(JSON.stringify(route.body), { status: route.status ?? 200, headers });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const issue = (overrides: Record<string, unknown> = {}) => ({
+  title: 'Widgets render twice',
+  state: 'open',
+  user: { login: 'octocat' },
+  created_at: '2024-03-01T10:00:00Z',
+  closed_at: null,
+  labels: [{ name: 'bug' }, 'ui'],
+  html_url: 'https://github.com/acme/widgets/issues/7',
+  body: 'It happens on every mount.',
+  ...overrides
+});
+
+const comment = (login: string, body: string) => ({ user: { login }, created_at: '2024-03-02T09:00:00Z', body });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchGithubIssue', () => {
+  it('formats an issue with its metadata and comments', async () => {
+    stubGithub({
+      [`${API}/issues/7`]: { body: issue() },
+      [`${API}/issues/7/comments?per_page=100`]: { body: [comment('hubot', 'Reproduced on main.')] }
+    });
+
+    const file = await fetchGithubIssue('https://github.com/acme/widgets/issues/7');
+
+    expect(file).toMatchObject({ id: 'gh-acme-widgets-7', name: 'acme/widgets#7 (issue).md', type: 'issue', mimeType: 'text/markdown' });
+    expect(file.content).toContain('# Issue #7: Widgets render twice');
+    expect(file.content).toContain('- State: open');
+    expect(file.content).toContain('- Labels: bug, ui');
+    expect(file.content).toContain('## Comments (1)\n\n### @hubot · 2024-03-02\n\nReproduced on main.');
+    expect(file.content).not.toContain('## Review Threads');
+  });
+
+  it('follows Link headers across list pages', async () => {
+    const page2 = `${API}/issues/7/comments?per_page=100&page=2`;
+    const fetchMock = stubGithub({
+      [`${API}/issues/7`]: { body: issue() },
+      [`${API}/issues/7/comments?per_page=100`]: { body: [comment('a', 'first')], next: page2 },
+      [page2]: { body: [comment('b', 'second')] }
+    });
+
+    const file = await fetchGithubIssue('https://github.com/acme/widgets/issues/7');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      `${API}/issues/7`,
+      `${API}/issues/7/comments?per_page=100`,
+      page2
+    ]);
+    expect(file.content).toContain('## Comments (2)');
+    expect(file.content.indexOf('first')).toBeLessThan(file.content.indexOf('second'));
+  });
+
+  it('stops paging after ten pages', async () => {
+    const routes: Record<string, Route> = { [`${API}/issues/7`]: { body: issue() } };
+    const pageUrl = (n: number) => `${API}/issues/7/comments?per_page=100${n > 1 ? `&page=${n}` : ''}`;
+    for (let n = 1; n <= 12; n++) routes[pageUrl(n)] = { body: [comment('a', `page ${n}`)], next: pageUrl(n + 1) };
+    const fetchMock = stubGithub(routes);
+
+    const file = await fetchGithubIssue('https://github.com/acme/widgets/issues/7');
+
+    expect(fetchMock).toHaveBeenCalledTimes(11);
+    expect(file.content).toContain('## Comments (10)');
+    expect(file.content).not.toContain('page 11');
+  });
+
+  it('normalises referenced files from blob links and backticked paths', async () => {
+    stubGithub({
+      [`${API}/issues/7`]: {
+        body: issue({
+          body: [
+            'See https://github.com/acme/widgets/blob/main/src/render.ts#L10-L20 and',
+            'https://github.com/Acme/Widgets/blob/0a1b2c3/src/mount.ts?plain=1.',
+            'Unrelated: https://github.com/other/repo/blob/main/src/elsewhere.ts'
+          ].join('\n')
+        })
+      },
+      [`${API}/issues/7/comments?per_page=100`]: {
+        body: [comment('a', 'Probably `src/mount.ts` or `src/hooks/useWidget.ts:42`, not `README`.')]
+      }
+    });
+
+    const file = await fetchGithubIssue('https://github.com/acme/widgets/issues/7');
+
+    expect(file.content).toContain('## Referenced Files\n\n- src/hooks/useWidget.ts:42\n- src/mount.ts\n- src/render.ts:10-20\n');
+    expect(file.content).not.toContain('- src/elsewhere.ts');
+  });
+
+  it('groups pull request review comments into threads', async () => {
+    const hunk = ['@@ -1,8 +1,8 @@', ' a', ' b', ' c', ' d', '-e', '+E', ' f', ' g'].join('\n');
+    stubGithub({
+      [`${API}/issues/9`]: { body: issue({ title: 'Fix double render', pull_request: {} }) },
+      [`${API}/issues/9/comments?per_page=100`]: { body: [] },
+      [`${API}/pulls/9`]: { body: { merged: true, head: { ref: 'fix/render' }, base: { ref: 'main' } } },
+      [`${API}/pulls/9/reviews?per_page=100`]: {
+        body: [
+          { user: { login: 'lead' }, state: 'CHANGES_REQUESTED', body: 'A few things.' },
+          { user: { login: 'lead' }, state: 'COMMENTED', body: '' }
+        ]
+      },
+      [`${API}/pulls/9/comments?per_page=100`]: {
+        body: [
+          { id: 1, path: 'src/render.ts', line: 12, diff_hunk: hunk, user: { login: 'lead' }, created_at: '2024-03-03T00:00:00Z', body: 'Why here?' },
+          { id: 2, path: 'src/mount.ts', line: null, original_line: 4, user: { login: 'lead' }, created_at: '2024-03-03T00:00:00Z', body: 'Stale' },
+          { id: 3, in_reply_to_id: 1, path: 'src/render.ts', user: { login: 'octocat' }, created_at: '2024-03-04T00:00:00Z', body: 'Mount runs it again.' }
+        ]
+      },
+      [`${API}/pulls/9/files?per_page=100`]: { body: [{ filename: 'src/render.ts', status: 'modified', additions: 1, deletions: 1 }] }
+    });
+
+    const file = await fetchGithubIssue('https://github.com/acme/widgets/pull/9');
+
+    expect(file.name).toBe('acme/widgets#9 (PR).md');
+    expect(file.content).toContain('- State: merged');
+    expect(file.content).toContain('- Branches: fix/render → main');
+    expect(file.content).toContain('## Changed Files\n\n- src/render.ts (modified, +1 -1)');
+    expect(file.content).toContain('## Reviews (1)\n\n- **@lead** changes requested: A few things.');
+    expect(file.content).toContain([
+      '### src/render.ts:12',
+      '',
+      '```diff',
+      ' c', ' d', '-e', '+E', ' f', ' g',
+      '```',
+      '',
+      '- **@lead** (2024-03-03): Why here?',
+      '- **@octocat** (2024-03-04): Mount runs it again.'
+    ].join('\n'));
+    expect(file.content).toContain('### src/mount.ts:4 (outdated)\n\n- **@lead** (2024-03-03): Stale');
+  });
+
+  it('rejects URLs that are not issues or pull requests', async () => {
+    const fetchMock = stubGithub({});
+    await expect(fetchGithubIssue('https://github.com/acme/widgets')).rejects.toBeInstanceOf(InvalidInputError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing issue as invalid input', async () => {
+    stubGithub({});
+    await expect(fetchGithubIssue('https://github.com/acme/widgets/issues/404')).rejects.toThrow('Issue or pull request not found.');
+  });
+});
@@ -1,95 +1,690 @@
-import { FileContext } from '../types';
+import { FileContext, RepoRef } from '../types';
+import { createMatcher } from './globService';
+import { getCredential, updateCredentials } from './credentialService';
+import { AuthError, InvalidInputError, NetworkError, QuotaError, DEFAULT_RETRY_POLICY, RetryPolicy, createCircuitBreaker, errorForStatus, withRetry } from './errorService';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 
+/**
+ * Parses a repository URL. Besides `github.com/owner/repo` it accepts
+ * `/tree/<ref>/<path>`, `/blob/<ref>/<path>` and `/commit/<sha>`; `refPath`
+ * keeps ref and path together because branch names may contain slashes.
+ */
 export function parseGithubUrl(url: string) {
-  const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+  const match = url.match(/github\.com\/([^\/]+)\/([^\/?#]+)(?:\/(tree|blob|commit)\/([^?#]+))?/);
   if (!match) return null;
   const owner = match[1];
   const repo = match[2].replace(/\.git$/, '');
-  return { owner, repo };
+  const kind = match[3] as 'tree' | 'blob' | 'commit' | undefined;
+  const refPath = match[4] ? decodeURIComponent(match[4]).replace(/\/+$/, '') : undefined;
+  return { owner, repo, kind, refPath };
 }
 
-export async function fetchGithubRepo(url: string, token?: string): Promise<FileContext[]> {
-  const parsed = parseGithubUrl(url);
-  if (!parsed) throw new Error("Invalid GitHub URL. Format: https://github.com/owner/repo");
-  const { owner, repo } = parsed;
+export interface GithubTreeEntry {
+  path: string;
+  sha: string;
+  size: number; // Bytes
+  url: string; // Blob API URL
+}
+
+export interface GithubRepoTree {
+  owner: string;
+  repo: string;
+  ref: string;
+  commitSha: string;
+  path: string; // Subdirectory (or single file) the import is limited to; '' for the whole repo
+  entries: GithubTreeEntry[];
+  paged: boolean; // The recursive listing was truncated and fetched per directory
+}
+
+export interface ImportFilters {
+  include: string[];
+  exclude: string[];
+  maxFileSize: number; // Bytes
+  maxFiles: number;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  current?: string;
+}
 
+export const DEFAULT_IMPORT_FILTERS: ImportFilters = {
+  include: [
+    '**/*.{ts,tsx,js,jsx,mjs,cjs,py,go,rs,java,kt,c,h,cpp,hpp,cs,rb,php,swift,vue,svelte}',
+    '**/*.{json,md,yml,yaml,toml}',
+    'Dockerfile',
+    'Makefile'
+  ],
+  exclude: ['node_modules/', 'dist/', 'build/', 'vendor/', 'coverage/', '.git/', '*.min.js', '*.lock', 'package-lock.json', 'pnpm-lock.yaml'],
+  maxFileSize: 100 * 1024,
+  maxFiles: 300
+};
+
+// Parallel requests per import; keeps us clear of GitHub's secondary rate limits
+const FETCH_CONCURRENCY = 6;
+
+const CONFIG_FILES = new Set([
+  'package.json', 'tsconfig.json', 'pyproject.toml', 'setup.py', 'requirements.txt', 'go.mod', 'cargo.toml',
+  'pom.xml', 'build.gradle', 'dockerfile', 'docker-compose.yml', 'makefile', 'vite.config.ts', 'webpack.config.js'
+]);
+const ENTRY_POINT_REGEX = /^(index|main|app|server|cli|__main__|lib|mod)\.[a-z]+$/;
+const TEST_PATH_REGEX = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.[a-z]+$/;
+
+export const getGithubToken = (): string | undefined => getCredential('githubToken');
+
+// Rejects while the key vault is locked or missing
+export const saveGithubToken = (token: string) => updateCredentials({ githubToken: token });
+
+const githubHeaders = (token?: string): HeadersInit => {
   const headers: HeadersInit = {
     'Accept': 'application/vnd.github.v3+json',
   };
   if (token) {
     headers['Authorization'] = `token ${token}`;
   }
+  return headers;
+};
+
+const githubBreaker = createCircuitBreaker('GitHub');
+
+// Writes are only repeated when GitHub refused them outright; after a network error the first one may have landed
+const WRITE_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, retryOn: ['quota'] };
+
+// GitHub signals rate limits with 403 as well as 429; the headers tell them apart from permission errors
+const rateLimitDelay = (res: Response): number | null => {
+  if (res.status !== 403 && res.status !== 429) return null;
+  const retryAfter = Number(res.headers.get('retry-after'));
+  if (retryAfter > 0) return retryAfter * 1000;
+  if (res.headers.get('x-ratelimit-remaining') !== '0') return res.status === 429 ? 0 : null;
+  return Math.max(Number(res.headers.get('x-ratelimit-reset')) * 1000 - Date.now(), 0);
+};
+
+/**
+ * fetch() under the shared retry policy and GitHub circuit breaker. Rate
+ * limits, 5xx responses and connection failures throw typed errors (after
+ * retries); other responses, including 4xx, are returned for the caller.
+ */
+const githubFetch = (url: string, init: RequestInit = {}): Promise<Response> => withRetry(async () => {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (e) {
+    throw new NetworkError(`Could not reach GitHub: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+  }
+  const rateLimitWait = rateLimitDelay(res);
+  if (rateLimitWait !== null) throw new QuotaError("GitHub API rate limit exceeded. Add a token to raise the limit.", { status: res.status, retryAfterMs: rateLimitWait });
+  if (res.status >= 500) throw new NetworkError(`GitHub is unavailable (${res.status}).`, { status: res.status });
+  return res;
+}, {
+  policy: init.method && init.method !== 'GET' ? WRITE_RETRY_POLICY : DEFAULT_RETRY_POLICY,
+  breaker: githubBreaker,
+  label: 'GitHub request'
+});
+
+// 401/403 mean the token is missing or lacks access; 404 on a private repo looks the same to GitHub
+const githubError = (res: Response, message = `GitHub request failed (${res.status}).`) =>
+  res.status === 401 || res.status === 403
+    ? new AuthError("GitHub refused the request. Check that the token exists and can access this repository.", { status: res.status })
+    : errorForStatus(res.status, message);
+
+async function githubJson(url: string, headers: HeadersInit, notFound: string) {
+  const res = await githubFetch(url, { headers });
+  if (!res.ok) throw githubError(res, res.status === 404 ? notFound : undefined);
+  return res.json();
+}
+
+/**
+ * Checks a token against the authenticated-user endpoint and resolves with
+ * the account's login.
+ */
+export async function validateGithubToken(token: string): Promise<string> {
+  const res = await githubFetch(`${GITHUB_API_BASE}/user`, { headers: githubHeaders(token) });
+  if (res.status === 401) throw new AuthError("GitHub rejected this token.", { status: 401 });
+  if (!res.ok) throw githubError(res);
+  const user = await res.json();
+  return user.login;
+}
+
+/**
+ * Maps over `items` with at most `limit` calls in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const toEntries = (nodes: any[], prefix: string): GithubTreeEntry[] => nodes
+  .filter(node => node.type === 'blob')
+  .map(node => ({ path: prefix + node.path, sha: node.sha, size: node.size ?? 0, url: node.url }));
+
+/**
+ * Lists every blob below a tree. GitHub truncates large recursive listings, so
+ * a truncated response is replaced by this level's entries plus one listing
+ * per subdirectory.
+ */
+async function collectTree(apiBase: string, sha: string, prefix: string, headers: HeadersInit): Promise<{ entries: GithubTreeEntry[]; paged: boolean }> {
+  const recursive = await githubJson(`${apiBase}/git/trees/${sha}?recursive=1`, headers, "Failed to fetch file tree.");
+  if (!recursive.truncated) return { entries: toEntries(recursive.tree, prefix), paged: false };
+
+  const level = await githubJson(`${apiBase}/git/trees/${sha}`, headers, "Failed to fetch file tree.");
+  const subtrees = level.tree.filter((node: any) => node.type === 'tree');
+  const children = await mapWithConcurrency(subtrees, FETCH_CONCURRENCY, (node: any) =>
+    collectTree(apiBase, node.sha, `${prefix}${node.path}/`, headers)
+  );
+
+  return {
+    entries: [...toEntries(level.tree, prefix), ...children.flatMap(c => c.entries)],
+    paged: true
+  };
+}
+
+/**
+ * Resolves the ref named in a URL to a commit. For `tree`/`blob` URLs the
+ * split between ref and path is unknown, so prefixes of `refPath` are tried
+ * from the shortest until one names a commit.
+ */
+async function resolveRef(apiBase: string, headers: HeadersInit, kind: string | undefined, refPath: string | undefined) {
+  if (!refPath) {
+    const repoData = await githubJson(apiBase, headers, "Repository not found or private.");
+    const commit = await githubJson(`${apiBase}/commits/${encodeURIComponent(repoData.default_branch)}`, headers, "Default branch not found.");
+    return { ref: repoData.default_branch as string, path: '', commitSha: commit.sha as string, treeSha: commit.commit.tree.sha as string };
+  }
+
+  const segments = refPath.split('/');
+  const candidates = kind === 'commit' ? [segments[0]] : segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+
+  for (const candidate of candidates) {
+    const res = await githubFetch(`${apiBase}/commits/${encodeURIComponent(candidate)}`, { headers });
+    if (res.status === 404 || res.status === 422) continue;
+    if (!res.ok) throw githubError(res);
+    const commit = await res.json();
+    const path = kind === 'commit' ? '' : refPath.slice(candidate.length + 1);
+    return { ref: candidate, path, commitSha: commit.sha as string, treeSha: commit.commit.tree.sha as string };
+  }
+  throw new InvalidInputError(`No branch, tag or commit matches "${refPath}".`);
+}
+
+/**
+ * Walks from the root tree to `path`, which may name a directory or a file.
+ */
+async function resolvePath(apiBase: string, headers: HeadersInit, treeSha: string, path: string) {
+  let sha = treeSha;
+  const segments = path.split('/');
+  for (let i = 0; i < segments.length; i++) {
+    const level = await githubJson(`${apiBase}/git/trees/${sha}`, headers, "Failed to fetch file tree.");
+    const node = level.tree.find((n: any) => n.path === segments[i]);
+    if (!node) throw new InvalidInputError(`Path "${path}" does not exist at this ref.`);
+    if (node.type === 'blob') {
+      if (i < segments.length - 1) throw new InvalidInputError(`Path "${path}" does not exist at this ref.`);
+      return { blob: toEntries([node], segments.slice(0, i).map(s => s + '/').join(''))[0] };
+    }
+    sha = node.sha;
+  }
+  return { treeSha: sha };
+}
+
+export async function fetchGithubTree(url: string, token?: string): Promise<GithubRepoTree> {
+  const parsed = parseGithubUrl(url);
+  if (!parsed) throw new InvalidInputError("Invalid GitHub URL. Format: https://github.com/owner/repo");
+  const { owner, repo } = parsed;
+  const headers = githubHeaders(token);
+  const apiBase = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
+
+  const { ref, path, commitSha, treeSha } = await resolveRef(apiBase, headers, parsed.kind, parsed.refPath);
+  const base = { owner, repo, ref, commitSha, path };
+
+  if (!path) {
+    const { entries, paged } = await collectTree(apiBase, treeSha, '', headers);
+    return { ...base, entries, paged };
+  }
+
+  const target = await resolvePath(apiBase, headers, treeSha, path);
+  if (target.blob) return { ...base, entries: [target.blob], paged: false };
+  // Names stay full repository paths so they line up with the rest of the repo
+  const { entries, paged } = await collectTree(apiBase, target.treeSha!, `${path}/`, headers);
+  return { ...base, entries, paged };
+}
+
+const importScore = (path: string): number => {
+  const lower = path.toLowerCase();
+  const segments = lower.split('/');
+  const name = segments[segments.length - 1];
+  const depth = segments.length - 1;
+
+  let score: number;
+  if (CONFIG_FILES.has(name)) score = depth === 0 ? 100 : 60;
+  else if (name === 'readme.md') score = depth === 0 ? 90 : 30;
+  else if (ENTRY_POINT_REGEX.test(name)) score = 80;
+  else score = 40;
+
+  if (TEST_PATH_REGEX.test(lower)) score -= 15;
+  if (segments[0] === 'docs' || segments[0] === 'examples') score -= 10;
+  return score - depth * 3;
+};
+
+/**
+ * Orders files so configs, the README and entry points come first, then
+ * shallow source files; tests and docs sink to the end.
+ */
+export const rankImportEntries = (entries: GithubTreeEntry[]): GithubTreeEntry[] => {
+  return [...entries].sort((a, b) => importScore(b.path) - importScore(a.path) || a.path.localeCompare(b.path));
+};
 
-  // 1. Get Default Branch
-  const repoDataRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, { headers });
-  if (!repoDataRes.ok) {
-    if (repoDataRes.status === 403) throw new Error("GitHub API rate limit exceeded or unauthorized.");
-    if (repoDataRes.status === 404) throw new Error("Repository not found or private.");
-    throw new Error("Failed to fetch repository details.");
+/**
+ * Applies include/exclude globs and the size cap, then keeps the best ranked
+ * `maxFiles` entries.
+ */
+export const filterTreeEntries = (entries: GithubTreeEntry[], filters: ImportFilters): GithubTreeEntry[] => {
+  const isIncluded = createMatcher(filters.include);
+  const isExcluded = createMatcher(filters.exclude);
+  const matching = entries.filter(entry =>
+    entry.size <= filters.maxFileSize && isIncluded(entry.path) && !isExcluded(entry.path)
+  );
+  return rankImportEntries(matching).slice(0, filters.maxFiles);
+};
+
+// NUL bytes almost never appear in text files
+const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8000).includes(0);
+
+/**
+ * Decodes base64 file content from the GitHub API; null for binary files.
+ */
+const decodeTextContent = (base64: string): string | null => {
+  const binaryString = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
   }
-  const repoData = await repoDataRes.json();
-  const branch = repoData.default_branch;
+  if (looksBinary(bytes)) return null;
+  // Keep a BOM so the content hashes back to the same blob sha
+  return new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes);
+};
 
-  // 2. Get File Tree (Recursive)
-  const treeRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`, { headers });
-  if (!treeRes.ok) throw new Error("Failed to fetch file tree.");
-  const treeData = await treeRes.json();
+/**
+ * Id of a file read from a repository. Built from the path rather than the
+ * blob sha, which identical files at different paths share.
+ */
+export const repoFileId = (ref: RepoRef, path: string) => `${ref.owner}/${ref.repo}@${ref.commitSha}:${path}`;
 
-  const allBlobs = treeData.tree.filter((node: any) => node.type === 'blob');
-  const relevantExtensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.json', '.md', '.go', '.rs', '.java', '.c', '.cpp', '.h'];
+// Same repository, ref and path, whichever commit the file was read from; used to skip re-imports
+export const repoFileKey = (file: FileContext) =>
+  file.repoRef ? `${file.repoRef.owner}/${file.repoRef.repo}@${file.repoRef.ref}:${file.name}` : file.id;
 
-  const priorityFiles = allBlobs.filter((node: any) => {
-    const path = node.path.toLowerCase();
-    if (path.endsWith('readme.md') || path.endsWith('package.json')) return true;
-    return relevantExtensions.some(ext => path.endsWith(ext));
-  }).slice(0, 15); // Increased to 15 for better context
+const fileTypeFor = (path: string): FileContext['type'] => {
+  const lowerName = path.toLowerCase();
+  return lowerName.endsWith('.json') || lowerName.endsWith('.csv') ? 'metric' : 'file';
+};
 
-  // 3. Fetch File Content
-  const fetchedFiles: FileContext[] = await Promise.all(priorityFiles.map(async (node: any) => {
-    const contentRes = await fetch(node.url, { headers });
-    if (!contentRes.ok) return null;
-    const contentData = await contentRes.json();
+/**
+ * Downloads the given entries with bounded concurrency. Entries that fail to
+ * download or turn out to be binary are reported in `skipped`.
+ */
+export async function fetchGithubFiles(
+  tree: GithubRepoTree,
+  entries: GithubTreeEntry[],
+  token?: string,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<{ files: FileContext[]; skipped: string[] }> {
+  const headers = githubHeaders(token);
+  const repoRef: RepoRef = { owner: tree.owner, repo: tree.repo, ref: tree.ref, commitSha: tree.commitSha };
+  const skipped: string[] = [];
+  let done = 0;
+  onProgress?.({ done, total: entries.length });
 
+  const fetched = await mapWithConcurrency(entries, FETCH_CONCURRENCY, async (node): Promise<FileContext | null> => {
     try {
-      const binaryString = atob(contentData.content.replace(/\s/g, ''));
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+      const contentRes = await githubFetch(node.url, { headers });
+      if (!contentRes.ok) {
+        if (contentRes.status === 401 || contentRes.status === 403) throw githubError(contentRes);
+        skipped.push(node.path);
+        return null;
       }
-      const decoder = new TextDecoder('utf-8');
-      const textContent = decoder.decode(bytes);
+      const contentData = await contentRes.json();
 
-      let type: FileContext['type'] = 'file';
-      const lowerName = node.path.toLowerCase();
-      if (lowerName.endsWith('.json') || lowerName.endsWith('.csv')) type = 'metric';
+      const textContent = decodeTextContent(contentData.content);
+      if (textContent === null) {
+        skipped.push(node.path);
+        return null;
+      }
 
       return {
-        id: node.sha,
+        id: repoFileId(repoRef, node.path),
         name: node.path,
         content: textContent,
-        type: type,
-        mimeType: 'text/plain'
+        type: fileTypeFor(node.path),
+        mimeType: 'text/plain',
+        repoRef: { ...repoRef, blobSha: node.sha }
       };
     } catch (e) {
+      // Rate limits, auth failures and outages will fail every remaining request too, so stop the import
+      if (e instanceof QuotaError || e instanceof AuthError || e instanceof NetworkError) throw e;
+      skipped.push(node.path);
       return null;
+    } finally {
+      done++;
+      onProgress?.({ done, total: entries.length, current: node.path });
     }
-  }));
+  });
+
+  return { files: fetched.filter((f): f is FileContext => f !== null), skipped };
+}
 
-  return fetchedFiles.filter((f): f is FileContext => f !== null);
+/**
+ * Non-interactive import: the default filters and ranking, no picker.
+ */
+export async function fetchGithubRepo(url: string, token?: string): Promise<FileContext[]> {
+  const tree = await fetchGithubTree(url, token);
+  const { files } = await fetchGithubFiles(tree, filterTreeEntries(tree.entries, DEFAULT_IMPORT_FILTERS), token);
+  return files;
+}
+
+/**
+ * Parses `github.com/owner/repo/issues/<n>` and `.../pull/<n>` URLs.
+ */
+export function parseGithubIssueUrl(url: string) {
+  const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)\/(issues|pull)\/(\d+)/);
+  if (!match) return null;
+  return { owner: match[1], repo: match[2], number: parseInt(match[4], 10), isPullRequest: match[3] === 'pull' };
 }
 
-export async function commitToGithub(
+// Upper bound per list so a very long thread cannot stall the import
+const MAX_LIST_PAGES = 10;
+
+/**
+ * Fetches every page of a list endpoint by following the Link header.
+ */
+async function githubList(url: string, headers: HeadersInit): Promise<any[]> {
+  const items: any[] = [];
+  let next: string | null = `${url}${url.includes('?') ? '&' : '?'}per_page=100`;
+  for (let page = 0; next && page < MAX_LIST_PAGES; page++) {
+    const res = await githubFetch(next, { headers });
+    if (!res.ok) throw githubError(res);
+    items.push(...await res.json());
+    next = res.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] || null;
+  }
+  return items;
+}
+
+const formatDate = (iso: string) => iso ? iso.slice(0, 10) : 'unknown date';
+const author = (item: any) => `@${item.user?.login || 'ghost'}`;
+
+/**
+ * Collects repository paths referenced in text: blob links to this repo
+ * (keeping their line anchors) and backticked paths with a file extension.
+ */
+const extractLinkedFiles = (texts: string[], owner: string, repo: string): string[] => {
+  const found = new Set<string>();
+  const blobLink = new RegExp(`github\\.com/${owner}/${repo}/blob/[^/\\s]+/([^\\s)#?]+)(?:#L(\\d+)(?:-L(\\d+))?)?`, 'gi');
+  const backticked = /`([\w.\-]+(?:\/[\w.\-]+)+\.[a-z0-9]+)(?::(\d+))?`/gi;
+
+  texts.forEach(text => {
+    for (const m of text.matchAll(blobLink)) {
+      found.add(m[2] ? `${m[1]}:${m[2]}${m[3] ? `-${m[3]}` : ''}` : m[1]);
+    }
+    for (const m of text.matchAll(backticked)) {
+      found.add(m[2] ? `${m[1]}:${m[2]}` : m[1]);
+    }
+  });
+  return Array.from(found).sort();
+};
+
+/**
+ * Groups review comments into threads (replies follow their root comment).
+ */
+const formatReviewThreads = (comments: any[]): string[] => {
+  const roots = comments.filter(c => !c.in_reply_to_id);
+  const replies = (id: number) => comments.filter(c => c.in_reply_to_id === id);
+
+  return roots.map(root => {
+    const line = root.line ?? root.original_line;
+    const lines = [`### ${root.path}${line ? `:${line}` : ''}${root.line === null ? ' (outdated)' : ''}`, ''];
+    if (root.diff_hunk) {
+      // The last few hunk lines are the code the comment is attached to
+      lines.push('```diff', ...root.diff_hunk.split('\n').slice(-6), '```', '');
+    }
+    [root, ...replies(root.id)].forEach(c => lines.push(`- **${author(c)}** (${formatDate(c.created_at)}): ${(c.body || '').trim().replace(/\n/g, '\n  ')}`));
+    return lines.join('\n');
+  });
+};
+
+/**
+ * Imports an issue, or a pull request with its reviews and review threads, as
+ * one Markdown `issue` context item with normalised metadata, comments and
+ * referenced files.
+ */
+export async function fetchGithubIssue(url: string, token?: string): Promise<FileContext> {
+  const parsed = parseGithubIssueUrl(url);
+  if (!parsed) throw new InvalidInputError("Invalid issue URL. Format: https://github.com/owner/repo/issues/123 or /pull/123");
+  const { owner, repo, number } = parsed;
+  const headers = githubHeaders(token);
+  const apiBase = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
+
+  // The issues endpoint also serves pull requests, so it tells us which one this is
+  const issue = await githubJson(`${apiBase}/issues/${number}`, headers, "Issue or pull request not found.");
+  const isPullRequest = Boolean(issue.pull_request);
+  const comments = await githubList(`${apiBase}/issues/${number}/comments`, headers);
+
+  const [pull, reviews, reviewComments, prFiles] = isPullRequest
+    ? await Promise.all([
+      githubJson(`${apiBase}/pulls/${number}`, headers, "Pull request not found."),
+      githubList(`${apiBase}/pulls/${number}/reviews`, headers),
+      githubList(`${apiBase}/pulls/${number}/comments`, headers),
+      githubList(`${apiBase}/pulls/${number}/files`, headers)
+    ])
+    : [null, [], [], []];
+
+  const labels: string[] = (issue.labels || []).map((l: any) => typeof l === 'string' ? l : l.name);
+  const state = pull?.merged ? 'merged' : issue.state;
+  const kind = isPullRequest ? 'Pull Request' : 'Issue';
+
+  const lines = [
+    `# ${kind} #${number}: ${issue.title}`,
+    '',
+    `- Repository: ${owner}/${repo}`,
+    `- State: ${state}`,
+    `- Author: ${author(issue)}`,
+    `- Created: ${formatDate(issue.created_at)}${issue.closed_at ? ` · Closed: ${formatDate(issue.closed_at)}` : ''}`,
+    `- Labels: ${labels.length > 0 ? labels.join(', ') : 'none'}`,
+    ...(pull ? [`- Branches: ${pull.head?.ref} → ${pull.base?.ref}`] : []),
+    `- URL: ${issue.html_url}`,
+    '',
+    '## Description',
+    '',
+    (issue.body || '_No description._').trim(),
+    ''
+  ];
+
+  const linkedFiles = extractLinkedFiles([issue.body || '', ...comments.map(c => c.body || ''), ...reviews.map(r => r.body || '')], owner, repo);
+  const changedFiles: string[] = prFiles.map((f: any) => `${f.filename} (${f.status}, +${f.additions} -${f.deletions})`);
+  if (changedFiles.length > 0) lines.push('## Changed Files', '', ...changedFiles.map(f => `- ${f}`), '');
+  if (linkedFiles.length > 0) lines.push('## Referenced Files', '', ...linkedFiles.map(f => `- ${f}`), '');
+
+  if (comments.length > 0) {
+    lines.push(`## Comments (${comments.length})`, '');
+    comments.forEach(c => lines.push(`### ${author(c)} · ${formatDate(c.created_at)}`, '', (c.body || '').trim(), ''));
+  }
+
+  const reviewSummaries = reviews.filter((r: any) => r.body?.trim() || r.state !== 'COMMENTED');
+  if (reviewSummaries.length > 0) {
+    lines.push(`## Reviews (${reviewSummaries.length})`, '');
+    reviewSummaries.forEach((r: any) => lines.push(`- **${author(r)}** ${r.state.toLowerCase().replace('_', ' ')}${r.body?.trim() ? `: ${r.body.trim()}` : ''}`));
+    lines.push('');
+  }
+
+  if (reviewComments.length > 0) {
+    lines.push(`## Review Threads`, '', ...formatReviewThreads(reviewComments).flatMap(t => [t, '']));
+  }
+
+  return {
+    id: `gh-${owner}-${repo}-${number}`.toLowerCase(),
+    name: `${owner}/${repo}#${number} ${isPullRequest ? '(PR)' : '(issue)'}.md`,
+    content: lines.join('\n'),
+    type: 'issue',
+    mimeType: 'text/markdown'
+  };
+}
+
+export interface PullRequestDiff {
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  body: string;
+  headSha: string;
+  files: { path: string; status: string; patch?: string }[];
+  baseFiles: FileContext[]; // Pre-change versions of the modified files
+}
+
+/**
+ * Loads a pull request's per-file patches and the base version of every file
+ * it modifies, so a review sees the code around each change.
+ */
+export async function fetchPullRequestDiff(url: string, token?: string): Promise<PullRequestDiff> {
+  const parsed = parseGithubIssueUrl(url);
+  if (!parsed?.isPullRequest) throw new InvalidInputError("Invalid pull request URL. Format: https://github.com/owner/repo/pull/123");
+  const { owner, repo, number } = parsed;
+  const headers = githubHeaders(token);
+  const apiBase = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
+
+  const pull = await githubJson(`${apiBase}/pulls/${number}`, headers, "Pull request not found.");
+  const prFiles = await githubList(`${apiBase}/pulls/${number}/files`, headers);
+  const baseRef: RepoRef = { owner, repo, ref: pull.base.ref, commitSha: pull.base.sha };
+
+  const baseFiles = await mapWithConcurrency(prFiles.filter((f: any) => f.status !== 'added'), FETCH_CONCURRENCY, async (f: any): Promise<FileContext | null> => {
+    const path: string = f.previous_filename || f.filename;
+    const res = await githubFetch(`${apiBase}/contents/${path.split('/').map(encodeURIComponent).join('/')}?ref=${pull.base.sha}`, { headers });
+    if (!res.ok) return null;
+    const data = await res.json();
+    // The contents API omits bodies over 1 MB
+    const content = data.content ? decodeTextContent(data.content) : null;
+    if (content === null) return null;
+    return { id: repoFileId(baseRef, path), name: path, content, type: fileTypeFor(path), mimeType: 'text/plain', repoRef: { ...baseRef, blobSha: data.sha } };
+  });
+
+  return {
+    owner,
+    repo,
+    number,
+    title: pull.title,
+    body: pull.body || '',
+    headSha: pull.head.sha,
+    files: prFiles.map((f: any) => ({ path: f.filename, status: f.status, patch: f.patch })),
+    baseFiles: baseFiles.filter((f): f is FileContext => f !== null)
+  };
+}
+
+/**
+ * Posts a COMMENT review with inline comments on head-version lines.
+ */
+export async function postPullRequestReview(
+  owner: string,
+  repo: string,
+  number: number,
+  token: string,
+  commitId: string,
+  body: string,
+  comments: { path: string; line: number; body: string }[]
+): Promise<string> {
+  const res = await githubFetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${number}/reviews`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `token ${token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      commit_id: commitId,
+      event: 'COMMENT',
+      body,
+      comments: comments.map(c => ({ path: c.path, line: c.line, side: 'RIGHT', body: c.body }))
+    })
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw githubError(res, `Failed to post review${data.message ? `: ${data.message}` : ''}`);
+  }
+  return (await res.json()).html_url;
+}
+
+export interface ChangedFile {
+  file: FileContext;
+  status: 'added' | 'modified';
+}
+
+export interface BranchCommit {
+  branch: string;
+  baseBranch: string; // Branch a pull request should target
+  commitSha: string;
+  commitUrl: string;
+}
+
+// GitHub treats owner and repository names case-insensitively
+export const isSameRepo = (ref: RepoRef | undefined, owner: string, repo: string) =>
+  !!ref && ref.owner.toLowerCase() === owner.toLowerCase() && ref.repo.toLowerCase() === repo.toLowerCase();
+
+/**
+ * Computes the git blob sha of text content, i.e. the sha GitHub gives the
+ * same file. Compared with `repoRef.blobSha`, a mismatch means the file was
+ * edited since import.
+ */
+export async function gitBlobSha(content: string): Promise<string> {
+  const body = new TextEncoder().encode(content);
+  const header = new TextEncoder().encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Finds the files to commit back to `owner/repo`: imported files whose content
+ * changed, plus files created in the workspace (`createdFileIds`).
+ */
+export async function findChangedFiles(files: FileContext[], owner: string, repo: string, createdFileIds: string[]): Promise<ChangedFile[]> {
+  const sameRepo = (f: FileContext) => isSameRepo(f.repoRef, owner, repo);
+  const created = new Set(createdFileIds);
+  const changed: ChangedFile[] = [];
+
+  for (const file of files) {
+    if (file.type === 'image') continue;
+    if (sameRepo(file)) {
+      // Files imported by older versions carry the blob sha as their id instead
+      const importedSha = file.repoRef!.blobSha ?? file.id;
+      if (await gitBlobSha(file.content) !== importedSha) changed.push({ file, status: 'modified' });
+    } else if (!file.repoRef && created.has(file.id)) {
+      changed.push({ file, status: 'added' });
+    }
+  }
+  return changed;
+}
+
+/**
+ * Commits `files` on top of `base` (the commit the files were imported from)
+ * and points a new branch at it. Nothing is pushed to existing branches.
+ */
+export async function commitToNewBranch(
   url: string,
   token: string,
   message: string,
   files: { path: string, content: string }[],
-  branchName?: string
-): Promise<string> {
+  branchName: string,
+  base?: RepoRef
+): Promise<BranchCommit> {
   const parsed = parseGithubUrl(url);
-  if (!parsed) throw new Error("Invalid GitHub URL");
+  if (!parsed) throw new InvalidInputError("Invalid GitHub URL");
   const { owner, repo } = parsed;
+  const apiBase = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
 
   const headers: HeadersInit = {
     'Authorization': `token ${token}`,
@@ -97,68 +692,73 @@ export async function commitToGithub(
     'Content-Type': 'application/json'
   };
 
-  // 1. Get branch info to find the latest commit SHA and its tree SHA
-  const branch = branchName || (await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, { headers }).then(r => r.json())).default_branch;
-  const branchRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/branches/${branch}`, { headers });
-  if (!branchRes.ok) throw new Error("Failed to fetch branch info");
-  const branchData = await branchRes.json();
-  const lastCommitSha = branchData.commit.sha;
+  const post = async (path: string, body: object, failure: string) => {
+    const res = await githubFetch(`${apiBase}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    if (!res.ok) {
+      if (res.status === 401 || res.status === 403) throw new AuthError("The token is not allowed to write to this repository.", { status: res.status });
+      throw githubError(res, failure);
+    }
+    return res.json();
+  };
+
+  // 1. Pick the parent commit and the branch a pull request will target.
+  // Pull requests need a branch as base, so tag or sha imports target the default branch.
+  const repoData = await githubJson(apiBase, headers, "Repository not found or private.");
+  let baseBranch: string = repoData.default_branch;
+  if (base && base.ref !== base.commitSha) {
+    const branchRes = await githubFetch(`${apiBase}/branches/${encodeURIComponent(base.ref)}`, { headers });
+    if (branchRes.ok) baseBranch = base.ref;
+  }
+  const parentSha: string = base?.commitSha
+    || (await githubJson(`${apiBase}/branches/${encodeURIComponent(baseBranch)}`, headers, "Failed to fetch branch info")).commit.sha;
+  const parentCommit = await githubJson(`${apiBase}/git/commits/${parentSha}`, headers, "Base commit not found.");
 
   // 2. Create Blobs for each file
-  const treeItems = await Promise.all(files.map(async (file) => {
-    const blobRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/blobs`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        content: file.content,
-        encoding: 'utf-8'
-      })
-    });
-    if (!blobRes.ok) throw new Error(`Failed to create blob for ${file.path}`);
-    const blobData = await blobRes.json();
+  const treeItems = await mapWithConcurrency(files, FETCH_CONCURRENCY, async (file) => {
+    const blobData = await post('/git/blobs', { content: file.content, encoding: 'utf-8' }, `Failed to create blob for ${file.path}`);
     return {
       path: file.path,
       mode: '100644', // normal file
       type: 'blob',
       sha: blobData.sha
     };
-  }));
+  });
 
   // 3. Create a new Tree
-  const treeRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      base_tree: branchData.commit.commit.tree.sha,
-      tree: treeItems
-    })
-  });
-  if (!treeRes.ok) throw new Error("Failed to create tree");
-  const treeData = await treeRes.json();
+  const treeData = await post('/git/trees', { base_tree: parentCommit.tree.sha, tree: treeItems }, "Failed to create tree");
 
   // 4. Create a Commit
-  const commitRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/commits`, {
+  const commitData = await post('/git/commits', { message, tree: treeData.sha, parents: [parentSha] }, "Failed to create commit");
+
+  // 5. Create the branch
+  const refRes = await githubFetch(`${apiBase}/git/refs`, {
     method: 'POST',
     headers,
-    body: JSON.stringify({
-      message,
-      tree: treeData.sha,
-      parents: [lastCommitSha]
-    })
+    body: JSON.stringify({ ref: `refs/heads/${branchName}`, sha: commitData.sha })
   });
-  if (!commitRes.ok) throw new Error("Failed to create commit");
-  const commitData = await commitRes.json();
+  if (refRes.status === 422) throw new InvalidInputError(`Branch "${branchName}" already exists.`, { status: 422 });
+  if (!refRes.ok) throw githubError(refRes, "Failed to create branch");
 
-  // 5. Update Reference
-  const refRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/refs/heads/${branch}`, {
-    method: 'PATCH',
-    headers,
-    body: JSON.stringify({
-      sha: commitData.sha,
-      force: false
-    })
-  });
-  if (!refRes.ok) throw new Error("Failed to update reference");
+  return { branch: branchName, baseBranch, commitSha: commitData.sha, commitUrl: commitData.html_url };
+}
 
-  return commitData.html_url;
+export async function openPullRequest(url: string, token: string, head: string, base: string, title: string, body: string): Promise<string> {
+  const parsed = parseGithubUrl(url);
+  if (!parsed) throw new InvalidInputError("Invalid GitHub URL");
+  const { owner, repo } = parsed;
+
+  const res = await githubFetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `token ${token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ title, body, head, base })
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw githubError(res, `Failed to open pull request${data.message ? `: ${data.message}` : ''}`);
+  }
+  return (await res.json()).html_url;
 }
@@ -0,0 +1,82 @@
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a gitignore-style glob. `*` and `?` stay within a path segment,
+ * `**` spans segments and `{a,b}` lists alternatives. Patterns without a slash
+ * match at any depth; a trailing slash only matches directories. A pattern
+ * that names a directory also matches everything inside it.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let pattern = glob.trim().replace(/^\.\//, '');
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const prefix = anchored ? '^' : '(?:^|/)';
+  const suffix = dirOnly ? '/.*$' : '(?:/.*)?$';
+  return new RegExp(prefix + source + suffix);
+};
+
+/**
+ * Splits user-entered patterns (one per line, as in .gitignore), dropping
+ * blanks and `#` comments.
+ */
+export const parsePatterns = (text: string): string[] => text
+  .split('\n')
+  .map(p => p.trim())
+  .filter(p => p && !p.startsWith('#'));
+
+export const createMatcher = (patterns: string[]) => {
+  const regexps = patterns.map(globToRegExp);
+  return (path: string) => regexps.some(re => re.test(path));
+};
+
+/**
+ * Matcher for ignore files: patterns apply in order, the last match wins and a
+ * leading `!` re-includes a path, as in .gitignore. `base` scopes the file to
+ * its directory (e.g. a nested `src/.gitignore`).
+ */
+export const createIgnoreMatcher = (patterns: string[], base = '') => {
+  const rules = patterns.map(pattern => {
+    const negated = pattern.startsWith('!');
+    const glob = (negated ? pattern.slice(1) : pattern).replace(/^\\([!#])/, '$1');
+    return { negated, regexp: globToRegExp(glob) };
+  });
+  const prefix = base ? `${base.replace(/\/$/, '')}/` : '';
+
+  // undefined when no rule matched, so callers can fall back to a parent file
+  return (path: string): boolean | undefined => {
+    if (prefix && !path.startsWith(prefix)) return undefined;
+    const relative = path.slice(prefix.length);
+    let ignored: boolean | undefined;
+    rules.forEach(rule => {
+      if (rule.regexp.test(relative)) ignored = !rule.negated;
+    });
+    return ignored;
+  };
+};
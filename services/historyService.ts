@@ -0,0 +1,94 @@
+import { Message } from '../types';
+import { estimateTokens } from './tokenService';
+
+export type HistoryItem = { role: string; parts: { text: string }[] };
+
+export interface ChatHistory {
+  history: HistoryItem[];
+  includedTurns: number;
+  omittedTurns: number;
+  estimatedTokens: number;
+}
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 8192;
+export const HISTORY_BUDGET_OPTIONS = [0, 4096, 8192, 16384, 32768];
+
+const SYSTEM_NOTIFICATION_PREFIX = '> System Notification:';
+const WELCOME_MESSAGE_ID = 'welcome';
+
+/**
+ * Filters out UI-only entries that carry no conversational meaning:
+ * the welcome banner, system notifications, pending placeholders, failed
+ * requests and runs that were stopped before producing any text.
+ */
+const isConversationalTurn = (message: Message): boolean => {
+  if (message.id === WELCOME_MESSAGE_ID) return false;
+  if (message.isThinking) return false;
+  if (message.error) return false;
+  if (!message.text.trim()) return false;
+  if (message.text.startsWith(SYSTEM_NOTIFICATION_PREFIX)) return false;
+  return true;
+};
+
+/**
+ * Condenses turns that no longer fit the budget into a single note so the
+ * model still knows what was asked earlier.
+ */
+const summarizeOmittedTurns = (omitted: Message[]): string => {
+  const questions = omitted
+    .filter(m => m.role === 'user')
+    .map(m => `- ${m.text.replace(/\s+/g, ' ').slice(0, 120)}`);
+
+  return `[Earlier conversation summary: ${omitted.length} older turn(s) omitted to fit the context budget.${questions.length > 0 ? ` Earlier user requests:\n${questions.join('\n')}` : ''}]`;
+};
+
+/**
+ * Converts the chat transcript into model history, keeping the most recent
+ * turns that fit `tokenBudget`. Older turns are replaced by a short summary.
+ */
+export const buildChatHistory = (messages: Message[], tokenBudget: number = DEFAULT_HISTORY_TOKEN_BUDGET): ChatHistory => {
+  const turns = messages.filter(isConversationalTurn);
+
+  if (tokenBudget <= 0 || turns.length === 0) {
+    return { history: [], includedTurns: 0, omittedTurns: turns.length, estimatedTokens: 0 };
+  }
+
+  // Walk backwards so the newest turns win the budget
+  const kept: Message[] = [];
+  let usedTokens = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].text);
+    if (usedTokens + cost > tokenBudget) break;
+    kept.unshift(turns[i]);
+    usedTokens += cost;
+  }
+
+  // Gemini expects the conversation to open with a user turn
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    usedTokens -= estimateTokens(kept[0].text);
+    kept.shift();
+  }
+
+  const omitted = turns.slice(0, turns.length - kept.length);
+  const history: HistoryItem[] = kept.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+  if (omitted.length > 0) {
+    const summary = summarizeOmittedTurns(omitted);
+    const summaryTokens = estimateTokens(summary);
+    if (usedTokens + summaryTokens <= tokenBudget) {
+      if (history.length > 0) {
+        history[0] = { role: 'user', parts: [{ text: summary }, ...history[0].parts] };
+      } else {
+        history.push({ role: 'user', parts: [{ text: summary }] });
+      }
+      usedTokens += summaryTokens;
+    }
+  }
+
+  return {
+    history,
+    includedTurns: kept.length,
+    omittedTurns: omitted.length,
+    estimatedTokens: usedTokens
+  };
+};
@@ -0,0 +1,127 @@
+import { StreamChunk } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { getCredential } from './credentialService';
+
+export interface LlmPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string }; // Base64 image
+}
+
+export interface LlmContent {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+export interface LlmRequest {
+  model: string;
+  contents: LlmContent[];
+  systemInstruction?: string;
+  thinkingBudget?: number; // Omitted for models that cannot think
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  text: string;
+  thoughts?: string; // Native reasoning output, when the provider exposes it
+}
+
+// Provider-neutral subset of JSON Schema used for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+/**
+ * A model backend. Providers only translate requests and responses; retries,
+ * prompts and the <thinking> tag convention live in geminiService. Failures a
+ * provider can classify (safety blocks, HTTP statuses) are thrown as
+ * AgentErrors; anything else is thrown as-is and classified by toAgentError.
+ */
+export interface LlmProvider {
+  kind: ProviderKind;
+  // Why requests cannot be sent (e.g. a missing key), or null when ready
+  configurationError: () => string | null;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+  // Yields native thoughts as `thought` chunks and all other text as `answer`
+  stream: (request: LlmRequest) => AsyncGenerator<StreamChunk>;
+  countTokens: (request: LlmRequest) => Promise<number>;
+  // Resolves with the parsed JSON; a SyntaxError means the model broke the schema
+  generateStructured: <T>(request: LlmRequest, schema: JsonSchema) => Promise<T>;
+}
+
+export type ProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. a local llama.cpp or Ollama server
+  model: string; // Model served by that endpoint; used for every mode
+  apiKey: string; // Optional bearer token for that endpoint
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: ''
+};
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible (local)',
+  mock: 'Scripted mock (offline)'
+};
+
+const PROVIDER_STORAGE_KEY = 'LLM_PROVIDER';
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...(saved ? JSON.parse(saved) : {}) };
+  } catch (e) {
+    console.warn('Failed to read provider settings:', e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) =>
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(settings));
+
+// A key entered at runtime wins over the one baked into the build
+const getGeminiApiKey = () => getCredential('geminiApiKey') || import.meta.env.GEMINI_API_KEY || '';
+
+let cached: { key: string; provider: LlmProvider } | null = null;
+let override: LlmProvider | null = null;
+
+/**
+ * Replaces the configured provider until cleared with null. Lets tests and
+ * demos drive the app with a scripted mock instead of a real endpoint.
+ */
+export const setProviderOverride = (provider: LlmProvider | null) => {
+  override = provider;
+};
+
+/**
+ * The provider for the next request. Built from the saved settings and the
+ * current Gemini key, and rebuilt only when either changes, so switching
+ * providers or keys needs no reload.
+ */
+export const getProvider = (): LlmProvider => {
+  if (override) return override;
+  const settings = getProviderSettings();
+  const apiKey = settings.kind === 'gemini' ? getGeminiApiKey() : '';
+  const key = JSON.stringify({ settings, apiKey });
+  if (cached?.key !== key) {
+    const provider = settings.kind === 'openai-compatible'
+      ? createOpenAiCompatibleProvider(settings)
+      : settings.kind === 'mock'
+        ? createMockProvider()
+        : createGeminiProvider(apiKey);
+    cached = { key, provider };
+  }
+  return cached.provider;
+};
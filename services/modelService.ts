@@ -0,0 +1,54 @@
+import { AgentMode } from '../types';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  supportsThinking: boolean;
+  minBudget: number; // Thinking budget bounds in tokens; both 0 without thinking support
+  maxBudget: number;
+  defaultBudget: number;
+  contextWindow: number;
+}
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', supportsThinking: true, minBudget: 128, maxBudget: 32768, defaultBudget: 4096, contextWindow: 1_048_576 },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', supportsThinking: true, minBudget: 128, maxBudget: 32768, defaultBudget: 4096, contextWindow: 1_048_576 },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', supportsThinking: true, minBudget: 0, maxBudget: 24576, defaultBudget: 2048, contextWindow: 1_048_576 },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', supportsThinking: true, minBudget: 0, maxBudget: 24576, defaultBudget: 0, contextWindow: 1_048_576 },
+  { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', supportsThinking: false, minBudget: 0, maxBudget: 0, defaultBudget: 0, contextWindow: 1_048_576 }
+];
+
+export const DEFAULT_MODE_MODELS: Record<AgentMode, string> = {
+  [AgentMode.FAST]: 'gemini-2.0-flash',
+  [AgentMode.ARCHITECT]: 'gemini-3-pro-preview',
+  [AgentMode.DEBUG]: 'gemini-3-pro-preview'
+};
+
+const MODE_MODELS_STORAGE_KEY = 'MODE_MODELS';
+
+/**
+ * Looks a model up in the registry. Ids that are not listed (e.g. a newer
+ * preview typed into settings) are treated as non-thinking with a 1M window.
+ */
+export const getModelInfo = (id: string): ModelInfo =>
+  MODEL_REGISTRY.find(m => m.id === id)
+  || { id, label: id, supportsThinking: false, minBudget: 0, maxBudget: 0, defaultBudget: 0, contextWindow: 1_048_576 };
+
+export const clampBudget = (model: ModelInfo, budget: number): number =>
+  model.supportsThinking ? Math.min(Math.max(budget, model.minBudget), model.maxBudget) : 0;
+
+export const getModeModels = (): Record<AgentMode, string> => {
+  try {
+    const saved = localStorage.getItem(MODE_MODELS_STORAGE_KEY);
+    return { ...DEFAULT_MODE_MODELS, ...(saved ? JSON.parse(saved) : {}) };
+  } catch (e) {
+    console.warn('Failed to read model settings:', e);
+    return DEFAULT_MODE_MODELS;
+  }
+};
+
+export const saveModeModels = (models: Record<AgentMode, string>) =>
+  localStorage.setItem(MODE_MODELS_STORAGE_KEY, JSON.stringify(models));
+
+// Read on every request so a settings change applies to the next call
+export const getModelForMode = (mode: AgentMode): ModelInfo => getModelInfo(getModeModels()[mode]);
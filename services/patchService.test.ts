@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { FileContext } from '../types';
+import { applyHunks, buildFilePatches, diffHunkRows, newLineOffset } from './patchService';
+
+const file: FileContext = { id: 'a', name: 'src/a.ts', content: ['one', 'two', 'three', 'four', 'five'].join('\n') + '\n', type: 'file' };
+
+const diff = (body: string) => '```diff\n--- a/src/a.ts\n+++ b/src/a.ts\n' + body + '\n```';
+const edit = (...sections: [string, string][]) => '```edit path=src/a.ts\n'
+  + sections.map(([search, replace]) => `<<<<<<< SEARCH\n${search}=======\n${replace}>>>>>>> REPLACE\n`).join('')
+  + '```';
+
+describe('buildFilePatches', () => {
+  it('inserts after the line an empty old range names', () => {
+    const [patch] = buildFilePatches(diff('@@ -2,0 +3,1 @@\n+inserted'), [file]);
+    expect(patch.hunks[0].oldStart).toBe(2);
+    expect(applyHunks(file.content, patch.hunks)).toBe('one\ntwo\ninserted\nthree\nfour\nfive\n');
+  });
+
+  it('inserts at the top for an empty range at line 0', () => {
+    const [patch] = buildFilePatches(diff('@@ -0,0 +1,1 @@\n+header'), [file]);
+    expect(applyHunks(file.content, patch.hunks)).toBe('header\none\ntwo\nthree\nfour\nfive\n');
+  });
+
+  it('flags an empty SEARCH against existing content as a conflict', () => {
+    const [patch] = buildFilePatches(edit(['', 'one\n']), [file]);
+    expect(patch.hunks[0].conflict).toBe(true);
+    expect(applyHunks(file.content, patch.hunks)).toBe(file.content);
+  });
+
+  it('flags a hunk that overlaps an earlier one as a conflict', () => {
+    const [patch] = buildFilePatches(edit(['two\nthree\n', 'TWO\n'], ['three\nfour\n', 'FOUR\n']), [file]);
+    expect(patch.hunks.map(h => h.conflict)).toEqual([false, true]);
+  });
+});
+
+describe('diffHunkRows', () => {
+  it('numbers right-hand lines after the edits above the hunk', () => {
+    const [patch] = buildFilePatches(edit(['one\n', 'one\nextra\nextra\n'], ['four\n', 'FOUR\n']), [file]);
+    const second = patch.hunks[1];
+    const rows = diffHunkRows(second, newLineOffset(second, patch.hunks));
+    expect(rows).toEqual([{ type: 'changed', left: { line: 4, text: 'four' }, right: { line: 6, text: 'FOUR' } }]);
+    expect(applyHunks(file.content, patch.hunks).split('\n')[5]).toBe('FOUR');
+  });
+});
@@ -0,0 +1,333 @@
+import { FileContext, FilePatch, PatchHunk } from '../types';
+
+interface RawHunk {
+  path: string;
+  oldLines: string[];
+  newLines: string[];
+  oldStartHint?: number; // From a unified diff header, may be stale
+}
+
+export type DiffRowType = 'equal' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+const FENCE_REGEX = /```([\w-]*)([^\n]*)\n([\s\S]*?)```/g;
+const SEARCH_REPLACE_REGEX = /<<<<<<< SEARCH\n([\s\S]*?)=======\n([\s\S]*?)>>>>>>> REPLACE/g;
+
+const toLines = (text: string): string[] => {
+  const trimmed = text.replace(/\n$/, '');
+  return trimmed === '' ? [] : trimmed.split('\n');
+};
+
+const stripDiffPrefix = (path: string) => path.trim().replace(/^[ab]\//, '');
+
+const parseSearchReplace = (path: string, body: string): RawHunk[] => {
+  const hunks: RawHunk[] = [];
+  let match;
+  SEARCH_REPLACE_REGEX.lastIndex = 0;
+  while ((match = SEARCH_REPLACE_REGEX.exec(body)) !== null) {
+    hunks.push({ path, oldLines: toLines(match[1]), newLines: toLines(match[2]) });
+  }
+  return hunks;
+};
+
+/**
+ * Parses a (possibly multi-file) unified diff. Each @@ hunk keeps its
+ * context lines so it can be relocated if the line numbers drifted.
+ */
+const parseUnifiedDiff = (body: string): RawHunk[] => {
+  const hunks: RawHunk[] = [];
+  let path: string | null = null;
+  let current: RawHunk | null = null;
+
+  body.split('\n').forEach(line => {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4);
+      path = target.trim() === '/dev/null' ? path : stripDiffPrefix(target);
+      current = null;
+      return;
+    }
+    if (line.startsWith('--- ')) {
+      const source = line.slice(4);
+      if (source.trim() !== '/dev/null') path = stripDiffPrefix(source);
+      current = null;
+      return;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/);
+    if (header && path) {
+      // An empty old range ("-10,0") names the line to insert after, not the first line replaced
+      const start = parseInt(header[1], 10);
+      const oldStartHint = header[2] === '0' ? start : Math.max(start - 1, 0);
+      current = { path, oldLines: [], newLines: [], oldStartHint };
+      hunks.push(current);
+      return;
+    }
+    if (!current) return;
+
+    if (line.startsWith('-')) current.oldLines.push(line.slice(1));
+    else if (line.startsWith('+')) current.newLines.push(line.slice(1));
+    else if (line.startsWith(' ') || line === '') {
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+    }
+  });
+
+  // A blank trailing line inside the fence is not real context
+  hunks.forEach(h => {
+    while (h.oldLines.length > 0 && h.newLines.length > 0 && h.oldLines[h.oldLines.length - 1] === '' && h.newLines[h.newLines.length - 1] === '') {
+      h.oldLines.pop();
+      h.newLines.pop();
+    }
+  });
+
+  return hunks;
+};
+
+/**
+ * Extracts raw edits from a model answer. Supports fenced `edit` blocks with a
+ * `path=` attribute holding SEARCH/REPLACE sections, and fenced unified diffs.
+ */
+const extractRawHunks = (text: string): RawHunk[] => {
+  const hunks: RawHunk[] = [];
+  let match;
+  FENCE_REGEX.lastIndex = 0;
+
+  while ((match = FENCE_REGEX.exec(text)) !== null) {
+    const [, language, info, body] = match;
+    const pathMatch = info.match(/path=["']?([^\s"']+)/);
+
+    if (body.includes('<<<<<<< SEARCH')) {
+      const path = pathMatch?.[1] || body.match(/^(?:FILE|File|file):\s*(\S+)/)?.[1];
+      if (path) hunks.push(...parseSearchReplace(path, body));
+    } else if ((language === 'diff' || language === 'patch') && /^\+\+\+ /m.test(body)) {
+      hunks.push(...parseUnifiedDiff(body));
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * Resolves a path from the model to a workspace file. Exact matches win; then
+ * either side may be a suffix of the other (e.g. `services/x.ts` vs `src/services/x.ts`).
+ */
+export const resolveWorkspaceFile = (path: string, files: FileContext[]): FileContext | undefined => {
+  const normalized = path.replace(/^\.\//, '');
+  return files.find(f => f.name === normalized)
+    || files.find(f => f.name.endsWith('/' + normalized))
+    || files.find(f => normalized.endsWith('/' + f.name));
+};
+
+const linesMatch = (lines: string[], start: number, target: string[], compare: (a: string, b: string) => boolean) => {
+  for (let i = 0; i < target.length; i++) {
+    if (!compare(lines[start + i], target[i])) return false;
+  }
+  return true;
+};
+
+/**
+ * Finds where `target` sits in `lines`, preferring the position closest to the
+ * hint. Falls back to whitespace-insensitive comparison. Returns -1 if absent.
+ */
+const locate = (lines: string[], target: string[], hint = 0): number => {
+  const comparators = [
+    (a: string, b: string) => a === b,
+    (a: string, b: string) => a !== undefined && a.trim() === b.trim()
+  ];
+
+  for (const compare of comparators) {
+    let best = -1;
+    for (let start = 0; start + target.length <= lines.length; start++) {
+      if (linesMatch(lines, start, target, compare) && (best === -1 || Math.abs(start - hint) < Math.abs(best - hint))) {
+        best = start;
+      }
+    }
+    if (best !== -1) return best;
+  }
+  return -1;
+};
+
+// Prefix added by numberLines; models sometimes copy it into SEARCH sections
+const LINE_NUMBER_PREFIX = /^\s*\d+\| ?/;
+
+/**
+ * Prefixes each line with its 1-based number (`12| code`), as sent to the
+ * model so it can cite `path:line`.
+ */
+export const numberLines = (content: string, start = 1): string => {
+  const lines = content.split('\n');
+  const width = String(start + lines.length - 1).length;
+  return lines.map((line, i) => `${String(start + i).padStart(width)}| ${line}`).join('\n');
+};
+
+// Insertions only collide with a replaced range they land inside, not with its edges
+const overlaps = (hunk: PatchHunk, start: number, length: number) =>
+  hunk.oldStart < start + length && start < hunk.oldStart + hunk.oldLines.length;
+
+/**
+ * Turns a model answer into per-file patches located against the current
+ * workspace. Hunks whose original text cannot be found, empty SEARCH sections
+ * against a file with content, and hunks overlapping an earlier one in the
+ * same file are marked as conflicts.
+ */
+export const buildFilePatches = (text: string, files: FileContext[]): FilePatch[] => {
+  const patches = new Map<string, FilePatch>();
+
+  extractRawHunks(text).forEach(raw => {
+    const file = resolveWorkspaceFile(raw.path, files);
+    const key = file ? file.id : raw.path;
+
+    if (!patches.has(key)) {
+      patches.set(key, { path: file ? file.name : raw.path, fileId: file?.id, isNewFile: !file, hunks: [] });
+    }
+    const patch = patches.get(key)!;
+    const lines = file ? toLines(file.content) : [];
+
+    let oldStart: number;
+    let conflictReason: string | undefined;
+    if (raw.oldLines.length === 0) {
+      // Pure insertion at the diff position. An empty SEARCH has no position and
+      // means "new file"; against existing content it would append a second copy.
+      oldStart = raw.oldStartHint !== undefined ? Math.min(raw.oldStartHint, lines.length) : lines.length;
+      if (raw.oldStartHint === undefined && lines.length > 0) conflictReason = 'The SEARCH section is empty, but the file already has content';
+    } else {
+      oldStart = locate(lines, raw.oldLines, raw.oldStartHint);
+      if (oldStart === -1 && raw.oldLines.every(line => LINE_NUMBER_PREFIX.test(line))) {
+        const unnumbered = raw.oldLines.map(line => line.replace(LINE_NUMBER_PREFIX, ''));
+        oldStart = locate(lines, unnumbered, raw.oldStartHint);
+        if (oldStart !== -1) {
+          raw.oldLines = unnumbered;
+          if (raw.newLines.every(line => LINE_NUMBER_PREFIX.test(line))) {
+            raw.newLines = raw.newLines.map(line => line.replace(LINE_NUMBER_PREFIX, ''));
+          }
+        }
+      }
+      if (oldStart === -1) conflictReason = 'The original lines were not found in the current file';
+    }
+
+    if (!conflictReason && patch.hunks.some(other => !other.conflict && overlaps(other, oldStart, raw.oldLines.length))) {
+      conflictReason = 'Overlaps an earlier edit to the same lines';
+    }
+
+    const hunk: PatchHunk = {
+      id: `${patch.path}#${patch.hunks.length}`,
+      oldStart: Math.max(oldStart, 0),
+      oldLines: raw.oldLines,
+      newLines: raw.newLines,
+      conflict: conflictReason !== undefined,
+      conflictReason
+    };
+    patch.hunks.push(hunk);
+  });
+
+  return Array.from(patches.values());
+};
+
+/**
+ * Applies hunks to a file's content. Hunks are applied bottom-up so earlier
+ * positions stay valid; conflicting hunks are skipped. At the same position a
+ * replacement goes before an insertion, so the inserted lines stay in front.
+ */
+export const applyHunks = (content: string, hunks: PatchHunk[]): string => {
+  const lines = toLines(content);
+  const trailingNewline = content.endsWith('\n');
+
+  [...hunks]
+    .filter(h => !h.conflict)
+    .sort((a, b) => b.oldStart - a.oldStart || b.oldLines.length - a.oldLines.length)
+    .forEach(h => lines.splice(h.oldStart, h.oldLines.length, ...h.newLines));
+
+  const result = lines.join('\n');
+  return trailingNewline && result ? result + '\n' : result;
+};
+
+/**
+ * How far `hunk` moves in the patched file because of the other `hunks` that
+ * applyHunks places before it (including an insertion at the same position).
+ */
+export const newLineOffset = (hunk: PatchHunk, hunks: PatchHunk[]): number => hunks
+  .filter(h => h !== hunk && !h.conflict && (h.oldStart < hunk.oldStart
+    || (h.oldStart === hunk.oldStart && h.oldLines.length === 0 && hunk.oldLines.length > 0)))
+  .reduce((sum, h) => sum + h.newLines.length - h.oldLines.length, 0);
+
+/**
+ * Line-level diff of a single hunk for side-by-side display. Uses a plain LCS,
+ * which is fine at hunk sizes; adjacent removals and additions are paired.
+ * `lineOffset` shifts the right-hand numbers by the edits above the hunk.
+ */
+export const diffHunkRows = (hunk: PatchHunk, lineOffset = 0): DiffRow[] => {
+  const { oldLines, newLines, oldStart } = hunk;
+  const newStart = oldStart + lineOffset;
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow['left'][] = [];
+  let added: DiffRow['right'][] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      flush();
+      rows.push({ type: 'equal', left: { line: oldStart + i + 1, text: oldLines[i] }, right: { line: newStart + j + 1, text: newLines[j] } });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ line: newStart + j + 1, text: newLines[j] });
+      j++;
+    } else {
+      removed.push({ line: oldStart + i + 1, text: oldLines[i] });
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+/**
+ * Prefixes each line of a GitHub file patch with its line number in the new
+ * version, so a model can cite exact lines. Also returns those new-side lines,
+ * which are the only ones GitHub accepts inline review comments on.
+ */
+export const annotateUnifiedDiff = (patch: string): { text: string; rightLines: number[] } => {
+  const rightLines: number[] = [];
+  let newLine = 0;
+
+  const text = patch.split('\n').map(line => {
+    const header = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      newLine = parseInt(header[1], 10);
+      return line;
+    }
+    if (line.startsWith('-') || line.startsWith('\\')) return `     ${line}`;
+    rightLines.push(newLine);
+    return `${String(newLine++).padStart(4)} ${line}`;
+  }).join('\n');
+
+  return { text, rightLines };
+};
@@ -0,0 +1,118 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { StreamChunk } from '../../types';
+import { LlmProvider, LlmRequest, JsonSchema } from '../llmProvider';
+import { SafetyBlockedError } from '../errorService';
+
+// Cheap call used to check a key before it is stored
+const VALIDATION_MODEL = 'gemini-2.0-flash';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([name, value]) => [name, toGeminiSchema(value)]))
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum })
+});
+
+const toConfig = (request: LlmRequest) => ({
+  systemInstruction: request.systemInstruction,
+  ...(request.thinkingBudget !== undefined && {
+    thinkingConfig: { thinkingBudget: request.thinkingBudget, includeThoughts: request.thinkingBudget > 0 }
+  }),
+  abortSignal: request.signal
+});
+
+/**
+ * Rejects when Gemini refuses the key. A quota error still means the key is
+ * valid, so it resolves.
+ */
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY']);
+
+// Gemini reports blocks as an empty answer with a reason attached, not as an HTTP error
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Gemini blocked the prompt (${blockReason}). Rephrase the request or remove the flagged content.`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError(`Gemini stopped the answer (${finishReason}).`);
+  }
+};
+
+export const validateGeminiApiKey = async (apiKey: string): Promise<void> => {
+  try {
+    await new GoogleGenAI({ apiKey }).models.countTokens({ model: VALIDATION_MODEL, contents: 'ping' });
+  } catch (error: any) {
+    if (error?.status === 429) return;
+    if ([400, 401, 403].includes(error?.status)) throw new Error('Gemini rejected this API key.');
+    throw error;
+  }
+};
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+
+  return {
+    kind: 'gemini',
+
+    configurationError: () => apiKey ? null : "No Gemini API key. Add one (or unlock the key vault) under API Keys, or set GEMINI_API_KEY in .env.local.",
+
+    generate: async (request) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.contents,
+        config: toConfig(request)
+      });
+      throwIfBlocked(response);
+
+      // Thought parts come back alongside the answer on thinking models
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const thoughts = parts.filter(p => p.thought).map(p => p.text).filter(Boolean).join('\n');
+      return { text: response.text || '', thoughts: thoughts || undefined };
+    },
+
+    stream: async function* (request): AsyncGenerator<StreamChunk> {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: request.contents,
+        config: toConfig(request)
+      });
+
+      for await (const response of stream) {
+        if (request.signal?.aborted) return;
+        throwIfBlocked(response);
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+          if (part.text) yield { kind: part.thought ? 'thought' : 'answer', text: part.text };
+        }
+      }
+    },
+
+    countTokens: async (request) => {
+      const response = await ai.models.countTokens({ model: request.model, contents: request.contents });
+      return response.totalTokens || 0;
+    },
+
+    generateStructured: async <T>(request: LlmRequest, schema: JsonSchema) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.contents,
+        config: { ...toConfig(request), responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }
+      });
+      throwIfBlocked(response);
+      return JSON.parse(response.text || '{}') as T;
+    }
+  };
+};
@@ -0,0 +1,110 @@
+import { ErrorKind, StreamChunk } from '../../types';
+import { LlmProvider, LlmRequest, JsonSchema } from '../llmProvider';
+import { estimateTokens } from '../tokenService';
+import { AgentError } from '../errorService';
+
+export interface MockStep {
+  match?: string | RegExp; // Tested against the request's last user text; omit to match any request
+  text?: string | ((request: LlmRequest) => string);
+  thoughts?: string;
+  json?: unknown | ((request: LlmRequest) => unknown); // For structured requests
+  error?: { message: string; status?: number; kind?: ErrorKind }; // Thrown instead of answering
+}
+
+export interface MockCall {
+  method: 'generate' | 'stream' | 'countTokens' | 'generateStructured';
+  request: LlmRequest;
+  schema?: JsonSchema;
+}
+
+export interface MockProvider extends LlmProvider {
+  calls: MockCall[]; // Every request received, in order
+}
+
+// Streamed answers are cut into fixed-size chunks so tag splitting is exercised
+const STREAM_CHUNK_SIZE = 16;
+
+const lastUserText = (request: LlmRequest) => {
+  const last = [...request.contents].reverse().find(c => c.role === 'user');
+  return last ? last.parts.map(p => p.text || '').join('') : '';
+};
+
+// A minimal value that satisfies the schema: first enum value, zero, empty
+const defaultFor = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, value]) => [name, defaultFor(value)]));
+    case 'array': return [];
+    case 'string': return schema.enum?.[0] ?? '';
+    case 'boolean': return false;
+    default: return 0;
+  }
+};
+
+/**
+ * Deterministic offline provider. Each request consumes the first unused step
+ * whose `match` fits; when none is left it answers with a fixed echo (or a
+ * schema-shaped default for structured output). Nothing touches the network,
+ * so the DEBUG pipeline, auto-analysis and reviews can run in tests.
+ */
+export const createMockProvider = (script: MockStep[] = []): MockProvider => {
+  const used = new Set<number>();
+  const calls: MockCall[] = [];
+
+  const take = (request: LlmRequest): MockStep | undefined => {
+    const text = lastUserText(request);
+    const index = script.findIndex((step, i) => !used.has(i) && (
+      step.match === undefined
+      || (typeof step.match === 'string' ? text.includes(step.match) : step.match.test(text))
+    ));
+    if (index === -1) return undefined;
+    used.add(index);
+    const step = script[index];
+    if (step.error?.kind) throw new AgentError(step.error.kind, step.error.message, { status: step.error.status });
+    if (step.error) throw Object.assign(new Error(step.error.message), { status: step.error.status });
+    return step;
+  };
+
+  const answer = (request: LlmRequest) => {
+    const step = take(request);
+    const text = typeof step?.text === 'function' ? step.text(request) : step?.text;
+    return {
+      text: text ?? `Mock response to a ${lastUserText(request).length}-character request with ${request.contents.length} message(s).`,
+      thoughts: step?.thoughts
+    };
+  };
+
+  return {
+    kind: 'mock',
+    calls,
+
+    configurationError: () => null,
+
+    generate: async (request) => {
+      calls.push({ method: 'generate', request });
+      return answer(request);
+    },
+
+    stream: async function* (request): AsyncGenerator<StreamChunk> {
+      calls.push({ method: 'stream', request });
+      const { text, thoughts } = answer(request);
+      if (thoughts) yield { kind: 'thought', text: thoughts };
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) return;
+        yield { kind: 'answer', text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+      }
+    },
+
+    countTokens: async (request) => {
+      calls.push({ method: 'countTokens', request });
+      return estimateTokens(request.contents.flatMap(c => c.parts.map(p => p.text || '')).join('\n'));
+    },
+
+    generateStructured: async <T>(request: LlmRequest, schema: JsonSchema) => {
+      calls.push({ method: 'generateStructured', request, schema });
+      const step = take(request);
+      const json = typeof step?.json === 'function' ? step.json(request) : step?.json;
+      return (json ?? defaultFor(schema)) as T;
+    }
+  };
+};
@@ -0,0 +1,109 @@
+import { StreamChunk } from '../../types';
+import { LlmProvider, LlmRequest, LlmContent, JsonSchema, ProviderSettings } from '../llmProvider';
+import { estimateTokens } from '../tokenService';
+import { SafetyBlockedError, errorForStatus } from '../errorService';
+
+const toMessages = (request: LlmRequest) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  ...request.contents.map((content: LlmContent) => ({
+    role: content.role === 'model' ? 'assistant' : 'user',
+    content: content.parts.map(part => part.inlineData
+      ? { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+      : { type: 'text', text: part.text || '' })
+  }))
+];
+
+const httpError = async (response: Response) => {
+  let message = `${response.status} ${response.statusText}`;
+  try {
+    const body = await response.json();
+    message = body?.error?.message || message;
+  } catch {
+    // Not JSON; keep the status line
+  }
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return errorForStatus(response.status, message, retryAfter > 0 ? retryAfter * 1000 : undefined);
+};
+
+const throwIfFiltered = (choice: any) => {
+  if (choice?.finish_reason === 'content_filter') {
+    throw new SafetyBlockedError("The endpoint's content filter withheld the answer.");
+  }
+};
+
+/**
+ * Chat Completions client for local servers (llama.cpp, Ollama, vLLM, LM
+ * Studio). The configured model serves every request, whatever model the
+ * caller asked for; thinking budgets are ignored. `reasoning_content`, which
+ * several of these servers emit for reasoning models, is mapped to thoughts.
+ */
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): LlmProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: LlmRequest, body: Record<string, unknown>) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` })
+      },
+      body: JSON.stringify({ model: settings.model, messages: toMessages(request), ...body }),
+      signal: request.signal
+    });
+    if (!response.ok) throw await httpError(response);
+    return response;
+  };
+
+  return {
+    kind: 'openai-compatible',
+
+    configurationError: () => !settings.baseUrl
+      ? "No endpoint URL configured for the OpenAI-compatible provider."
+      : !settings.model ? "No model configured for the OpenAI-compatible provider." : null,
+
+    generate: async (request) => {
+      const data = await (await post(request, {})).json();
+      throwIfFiltered(data.choices?.[0]);
+      const message = data.choices?.[0]?.message || {};
+      return { text: message.content || '', thoughts: message.reasoning_content || undefined };
+    },
+
+    stream: async function* (request): AsyncGenerator<StreamChunk> {
+      const response = await post(request, { stream: true });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+
+        // Server-sent events: one `data: {json}` per line, ended by `data: [DONE]`
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const choice = JSON.parse(data).choices?.[0];
+          throwIfFiltered(choice);
+          const delta = choice?.delta || {};
+          if (delta.reasoning_content) yield { kind: 'thought', text: delta.reasoning_content };
+          if (delta.content) yield { kind: 'answer', text: delta.content };
+        }
+      }
+    },
+
+    // There is no standard tokenize endpoint, so this is the client-side estimate
+    countTokens: async (request) =>
+      estimateTokens([request.systemInstruction || '', ...request.contents.flatMap(c => c.parts.map(p => p.text || ''))].join('\n')),
+
+    generateStructured: async <T>(request: LlmRequest, schema: JsonSchema) => {
+      const data = await (await post(request, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }
+      })).json();
+      throwIfFiltered(data.choices?.[0]);
+      return JSON.parse(data.choices?.[0]?.message?.content || '{}') as T;
+    }
+  };
+};
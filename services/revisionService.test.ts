@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { FileContext } from '../types';
+import { EMPTY_HISTORY, diffWorkspaces, recordRevision, redoRevision, undoRevision } from './revisionService';
+
+const imported: FileContext = {
+  id: 'acme/widgets@abc123:src/a.ts',
+  name: 'src/a.ts',
+  content: 'export const a = 1;\n',
+  type: 'file',
+  mimeType: 'text/plain',
+  repoRef: { owner: 'acme', repo: 'widgets', ref: 'main', commitSha: 'abc123', blobSha: 'def456' }
+};
+
+const record = (before: FileContext[], after: FileContext[]) =>
+  recordRevision(EMPTY_HISTORY, { id: 'rev-1', timestamp: 0, label: 'Change', changes: diffWorkspaces(before, after) });
+
+describe('undoRevision', () => {
+  it('recreates a removed imported file with its repository and mime type', () => {
+    const history = record([imported], []);
+    const undone = undoRevision(history, [])!;
+    expect(undone.files).toEqual([imported]);
+    expect(redoRevision(undone.history, undone.files)!.files).toEqual([]);
+  });
+
+  it('keeps the metadata of a file that still exists and only restores its content', () => {
+    const edited = { ...imported, content: 'export const a = 2;\n' };
+    const undone = undoRevision(record([imported], [edited]), [edited])!;
+    expect(undone.files).toEqual([imported]);
+  });
+});
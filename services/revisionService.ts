@@ -0,0 +1,139 @@
+import { AgentMode, FileContext, FileChange, RevisionEntry } from '../types';
+
+export interface WorkspaceHistory {
+  past: RevisionEntry[]; // Oldest first; the last entry is the next undo
+  future: RevisionEntry[]; // Most recently undone last
+}
+
+export interface FileRevision {
+  id: string;
+  entryId?: string; // Undefined for the state before the first recorded change
+  content: string | null; // null when the file did not exist
+  timestamp?: number;
+  label: string;
+  messageId?: string;
+  mode?: AgentMode;
+  isCurrent: boolean;
+}
+
+// Bounds memory use; each entry stores full before/after copies of the touched files
+const MAX_ENTRIES = 100;
+
+export const EMPTY_HISTORY: WorkspaceHistory = { past: [], future: [] };
+
+/**
+ * Diffs two workspace snapshots into per-file changes (added, edited or removed).
+ */
+export const diffWorkspaces = (before: FileContext[], after: FileContext[]): FileChange[] => {
+  const changes: FileChange[] = [];
+  const beforeById = new Map(before.map(f => [f.id, f]));
+  const afterById = new Map(after.map(f => [f.id, f]));
+  const identity = (file: FileContext) => ({ fileId: file.id, fileName: file.name, type: file.type, mimeType: file.mimeType, repoRef: file.repoRef });
+
+  after.forEach(file => {
+    const previous = beforeById.get(file.id);
+    if (!previous || previous.content !== file.content) {
+      changes.push({ ...identity(file), before: previous ? previous.content : null, after: file.content });
+    }
+  });
+  before.forEach(file => {
+    if (!afterById.has(file.id)) {
+      changes.push({ ...identity(file), before: file.content, after: null });
+    }
+  });
+
+  return changes;
+};
+
+export const recordRevision = (history: WorkspaceHistory, entry: RevisionEntry): WorkspaceHistory => {
+  if (entry.changes.length === 0) return history;
+  return {
+    past: [...history.past, entry].slice(-MAX_ENTRIES),
+    future: []
+  };
+};
+
+// Recreates a file a change recorded, with the metadata it had at the time
+export const fileFromChange = (change: FileChange, content: string): FileContext => ({
+  id: change.fileId,
+  name: change.fileName,
+  content,
+  type: change.type,
+  mimeType: change.mimeType,
+  repoRef: change.repoRef
+});
+
+/**
+ * Writes one side of a change set into the workspace. Files that were removed
+ * in the meantime are recreated so an undo never silently drops content.
+ */
+const applyChangeSet = (files: FileContext[], changes: FileChange[], side: 'before' | 'after'): FileContext[] => {
+  let next = files;
+  changes.forEach(change => {
+    const content = change[side];
+    const existing = next.find(f => f.id === change.fileId);
+
+    if (content === null) {
+      next = next.filter(f => f.id !== change.fileId);
+    } else if (existing) {
+      next = next.map(f => f.id === change.fileId ? { ...f, content } : f);
+    } else {
+      next = [...next, fileFromChange(change, content)];
+    }
+  });
+  return next;
+};
+
+export const undoRevision = (history: WorkspaceHistory, files: FileContext[]) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    files: applyChangeSet(files, [...entry.changes].reverse(), 'before'),
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] }
+  };
+};
+
+export const redoRevision = (history: WorkspaceHistory, files: FileContext[]) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    files: applyChangeSet(files, entry.changes, 'after'),
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) }
+  };
+};
+
+/**
+ * Builds the revision timeline of a single file from the undo stack, oldest
+ * first. The first item is the content before the earliest recorded change.
+ */
+export const getFileTimeline = (history: WorkspaceHistory, fileId: string): FileRevision[] => {
+  const entries = history.past.filter(e => e.changes.some(c => c.fileId === fileId));
+  if (entries.length === 0) return [];
+
+  const first = entries[0].changes.find(c => c.fileId === fileId)!;
+  const revisions: FileRevision[] = [{
+    id: `${fileId}-base`,
+    content: first.before,
+    label: first.before === null ? 'Did not exist' : 'Original',
+    isCurrent: false
+  }];
+
+  entries.forEach(entry => {
+    const change = entry.changes.find(c => c.fileId === fileId)!;
+    revisions.push({
+      id: `${fileId}-${entry.id}`,
+      entryId: entry.id,
+      content: change.after,
+      timestamp: entry.timestamp,
+      label: entry.label,
+      messageId: entry.messageId,
+      mode: entry.mode,
+      isCurrent: false
+    });
+  });
+
+  revisions[revisions.length - 1].isCurrent = true;
+  return revisions;
+};
@@ -0,0 +1,146 @@
+import { AgentMode, FileContext, Message, WorkspaceMeta } from '../types';
+import { WorkspaceHistory } from './revisionService';
+
+const BUNDLE_FORMAT = 'codeagent-session';
+const BUNDLE_VERSION = 1;
+
+export interface SessionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  workspace: {
+    name: string;
+    agentMode: AgentMode;
+    thinkingBudget: number;
+  };
+  messages: Message[];
+  files: FileContext[]; // Images keep their base64 content
+  revisions: WorkspaceHistory | null;
+}
+
+export const createSessionBundle = (
+  meta: WorkspaceMeta,
+  messages: Message[],
+  files: FileContext[],
+  revisions: WorkspaceHistory
+): SessionBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  workspace: { name: meta.name, agentMode: meta.agentMode, thinkingBudget: meta.thinkingBudget },
+  // In-flight placeholders would import as permanently "thinking"
+  messages: messages.map(m => m.isThinking ? { ...m, isThinking: false, isCancelled: true } : m),
+  files,
+  revisions: revisions.past.length > 0 || revisions.future.length > 0 ? revisions : null
+});
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+/**
+ * Parses and validates a bundle produced by `createSessionBundle`. Throws with
+ * a message fit for the user when the file is not a usable bundle.
+ */
+export const parseSessionBundle = (text: string): SessionBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not a CodeAgent session bundle.');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${data.version}; update the app to import it.`);
+  }
+  if (!Array.isArray(data.messages) || !data.messages.every(m => isObject(m) && typeof m.id === 'string' && typeof m.text === 'string')) {
+    throw new Error('The bundle has no valid message list.');
+  }
+  if (!Array.isArray(data.files) || !data.files.every(f => isObject(f) && typeof f.id === 'string' && typeof f.name === 'string' && typeof f.content === 'string')) {
+    throw new Error('The bundle has no valid file list.');
+  }
+
+  const workspace = isObject(data.workspace) ? data.workspace : {};
+  const agentMode = Object.values(AgentMode).includes(workspace.agentMode) ? workspace.agentMode : AgentMode.ARCHITECT;
+  const revisions = isObject(data.revisions) && Array.isArray(data.revisions.past) && Array.isArray(data.revisions.future)
+    ? data.revisions as WorkspaceHistory
+    : null;
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+    workspace: {
+      name: typeof workspace.name === 'string' && workspace.name.trim() ? workspace.name : 'Imported session',
+      agentMode,
+      thinkingBudget: typeof workspace.thinkingBudget === 'number' ? workspace.thinkingBudget : 4096
+    },
+    messages: data.messages as Message[],
+    files: data.files as FileContext[],
+    revisions
+  };
+};
+
+// Quote every line so multi-line reasoning stays inside the blockquote
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+/**
+ * Renders the conversation as Markdown for incident docs. The welcome message
+ * is left out; reasoning traces are only included on request.
+ */
+export const buildTranscript = (name: string, messages: Message[], includeReasoning: boolean): string => {
+  const lines: string[] = [`# ${name}`, '', `_Exported ${new Date().toLocaleString()}_`, ''];
+
+  messages
+    .filter(m => m.id !== 'welcome' && !m.isThinking)
+    .forEach(message => {
+      const time = new Date(message.timestamp).toLocaleString();
+      const author = message.role === 'user' ? 'User' : `Agent${message.mode ? ` (${message.mode})` : ''}`;
+      lines.push('---', '', `### ${author} · ${time}`, '');
+
+      if (message.attachments?.length) {
+        lines.push(`_Attachments: ${message.attachments.map(a => a.name).join(', ')}_`, '');
+      }
+      if (message.contextFileNames?.length) {
+        lines.push(`_Context: ${message.contextFileNames.map(n => `\`${n}\``).join(', ')}_`, '');
+      }
+      if (includeReasoning && message.thoughts) {
+        lines.push('**Reasoning**', '', quote(message.thoughts.trim()), '');
+      }
+
+      if (message.text.trim() || !message.error) {
+        lines.push(message.text.trim() || (message.isCancelled ? '_Run stopped before an answer was produced._' : '_No response._'), '');
+      }
+      if (message.isCancelled && message.text.trim()) lines.push('_(Cancelled)_', '');
+      if (message.error) lines.push(`_Failed (${message.error.kind}): ${message.error.message}_`, '');
+      message.debugRun?.forEach(it => {
+        const verdict = it.verdict ? `, review ${it.verdict.status} (${Math.round(it.verdict.confidence * 100)}%)` : '';
+        lines.push(`- Attempt ${it.index + 1} (${it.stage}, ${it.model}): ${it.status}${it.checks ? `, checks ${it.checks.verdict}` : ''}${verdict}`);
+      });
+      if (message.debugRun?.length) lines.push('');
+      message.review?.findings.forEach(f => {
+        lines.push(`- **${f.severity}** \`${f.path}:${f.line}\` ${f.title}: ${f.body.replace(/\n+/g, ' ')}`);
+      });
+      if (message.review?.findings.length) lines.push('');
+    });
+
+  return lines.join('\n');
+};
+
+/**
+ * Turns a workspace name into a safe download file name.
+ */
+export const toFileName = (name: string, extension: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
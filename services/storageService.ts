@@ -0,0 +1,338 @@
+import { FileContext, Message, WorkspaceMeta } from '../types';
+import { WorkspaceHistory } from './revisionService';
+
+const DB_NAME = 'codeagent';
+const DB_VERSION = 2;
+
+type CollectionStore = 'workspace_messages' | 'workspace_files';
+
+// Workspace that data from older versions (v1 stores, localStorage) lands in
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Keys in the `meta` store (out-of-line keys); per-workspace keys get a prefix
+const META_KEYS = {
+  ACTIVE_WORKSPACE: 'activeWorkspaceId',
+  MESSAGE_ORDER: 'messageOrder',
+  FILE_ORDER: 'fileOrder',
+  REVISIONS: 'revisions'
+};
+
+const workspaceKey = (workspaceId: string, key: string) => `${workspaceId}:${key}`;
+
+// Matches every [workspaceId, id] key of one workspace (arrays sort after strings)
+const workspaceRange = (workspaceId: string) => IDBKeyRange.bound([workspaceId], [workspaceId, []]);
+
+// Keys written by the previous localStorage implementation
+const LEGACY_KEYS = {
+  MESSAGES: 'codeagent_messages',
+  FILES: 'codeagent_files',
+  REVISIONS: 'codeagent_revisions'
+};
+
+export interface PersistedWorkspace {
+  messages: Message[];
+  files: FileContext[];
+  revisions: WorkspaceHistory | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * v1 kept a single session in `messages`/`files`. v2 namespaces every record
+ * by workspace, so the old rows are copied into the default workspace.
+ */
+const migrateV1Stores = (db: IDBDatabase, tx: IDBTransaction) => {
+  const moves: [string, CollectionStore, string][] = [
+    ['messages', 'workspace_messages', META_KEYS.MESSAGE_ORDER],
+    ['files', 'workspace_files', META_KEYS.FILE_ORDER]
+  ];
+  const meta = tx.objectStore('meta');
+
+  moves.forEach(([oldName, newName, orderKey]) => {
+    if (!db.objectStoreNames.contains(oldName)) return;
+    const target = tx.objectStore(newName);
+
+    tx.objectStore(oldName).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (cursor) {
+        target.put({ ...cursor.value, workspaceId: DEFAULT_WORKSPACE_ID });
+        cursor.continue();
+      } else {
+        db.deleteObjectStore(oldName);
+      }
+    };
+
+    meta.get(orderKey).onsuccess = (event) => {
+      const order = (event.target as IDBRequest).result;
+      if (order) {
+        meta.put(order, workspaceKey(DEFAULT_WORKSPACE_ID, orderKey));
+        meta.delete(orderKey);
+      }
+    };
+  });
+
+  meta.get(META_KEYS.REVISIONS).onsuccess = (event) => {
+    const revisions = (event.target as IDBRequest).result;
+    if (revisions) {
+      meta.put(revisions, workspaceKey(DEFAULT_WORKSPACE_ID, META_KEYS.REVISIONS));
+      meta.delete(META_KEYS.REVISIONS);
+    }
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+        if (!db.objectStoreNames.contains('workspaces')) db.createObjectStore('workspaces', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('workspace_messages')) db.createObjectStore('workspace_messages', { keyPath: ['workspaceId', 'id'] });
+        if (!db.objectStoreNames.contains('workspace_files')) db.createObjectStore('workspace_files', { keyPath: ['workspaceId', 'id'] });
+
+        if (event.oldVersion === 1) migrateV1Stores(db, request.transaction!);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Persists a collection incrementally. React state updates are immutable, so
+ * an item whose reference is unchanged since the last write is skipped; only
+ * new, edited and removed records touch the database.
+ */
+const createCollectionWriter = <T extends { id: string }>(storeName: CollectionStore, orderKey: string) => {
+  const persistedByWorkspace = new Map<string, { items: Map<string, T>; order: string[] }>();
+
+  const prime = (workspaceId: string, items: T[]) => {
+    persistedByWorkspace.set(workspaceId, {
+      items: new Map(items.map(item => [item.id, item])),
+      order: items.map(item => item.id)
+    });
+  };
+
+  const write = async (workspaceId: string, items: T[]) => {
+    const persisted = persistedByWorkspace.get(workspaceId) || { items: new Map<string, T>(), order: [] };
+    const ids = items.map(item => item.id);
+    const idSet = new Set(ids);
+    const changed = items.filter(item => persisted.items.get(item.id) !== item);
+    const removed = persisted.order.filter(id => !idSet.has(id));
+    const orderChanged = ids.length !== persisted.order.length || ids.some((id, i) => id !== persisted.order[i]);
+
+    if (changed.length === 0 && removed.length === 0 && !orderChanged) return;
+    prime(workspaceId, items);
+
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction([storeName, 'meta'], 'readwrite');
+      const store = tx.objectStore(storeName);
+      changed.forEach(item => store.put({ ...item, workspaceId }));
+      removed.forEach(id => store.delete([workspaceId, id]));
+      if (orderChanged) tx.objectStore('meta').put(ids, workspaceKey(workspaceId, orderKey));
+      await transactionDone(tx);
+    } catch (e) {
+      // Forget what we think is stored so the next write retries everything
+      persistedByWorkspace.set(workspaceId, { items: new Map(), order: persisted.order });
+      throw e;
+    }
+  };
+
+  const forget = (workspaceId: string) => persistedByWorkspace.delete(workspaceId);
+
+  return { prime, write, forget };
+};
+
+const messageWriter = createCollectionWriter<Message>('workspace_messages', META_KEYS.MESSAGE_ORDER);
+const fileWriter = createCollectionWriter<FileContext>('workspace_files', META_KEYS.FILE_ORDER);
+
+const readCollection = async <T extends { id: string }>(db: IDBDatabase, storeName: CollectionStore, workspaceId: string, orderKey: string): Promise<T[]> => {
+  const tx = db.transaction([storeName, 'meta'], 'readonly');
+  const [records, order] = await Promise.all([
+    requestToPromise(tx.objectStore(storeName).getAll(workspaceRange(workspaceId)) as IDBRequest<(T & { workspaceId: string })[]>),
+    requestToPromise(tx.objectStore('meta').get(workspaceKey(workspaceId, orderKey)) as IDBRequest<string[] | undefined>)
+  ]);
+
+  // The namespace is a storage detail; keep it out of application state
+  const items = records.map(({ workspaceId: _, ...item }) => item as unknown as T);
+  if (!order) return items;
+  const byId = new Map(items.map(item => [item.id, item]));
+  return order.map(id => byId.get(id)).filter((item): item is T => item !== undefined);
+};
+
+const readLegacy = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.warn(`Failed to read legacy storage key ${key}:`, e);
+    return null;
+  }
+};
+
+/**
+ * Moves a session saved by the old localStorage implementation into the
+ * default workspace. The legacy keys are only removed after the write succeeded.
+ */
+const migrateLegacyStorage = async (): Promise<void> => {
+  const messages = readLegacy<Message[]>(LEGACY_KEYS.MESSAGES);
+  const files = readLegacy<FileContext[]>(LEGACY_KEYS.FILES);
+  const revisions = readLegacy<WorkspaceHistory>(LEGACY_KEYS.REVISIONS);
+  if (!messages && !files && !revisions) return;
+
+  await Promise.all([
+    messageWriter.write(DEFAULT_WORKSPACE_ID, messages || []),
+    fileWriter.write(DEFAULT_WORKSPACE_ID, files || []),
+    revisions ? saveRevisions(DEFAULT_WORKSPACE_ID, revisions) : Promise.resolve()
+  ]);
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+export const saveWorkspaceMeta = async (meta: WorkspaceMeta) => {
+  const db = await openDatabase();
+  const tx = db.transaction('workspaces', 'readwrite');
+  tx.objectStore('workspaces').put(meta);
+  await transactionDone(tx);
+};
+
+export const setActiveWorkspaceId = async (workspaceId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(workspaceId, META_KEYS.ACTIVE_WORKSPACE);
+  await transactionDone(tx);
+};
+
+/**
+ * Lists all workspaces and the one that was open last. On first run (or after
+ * upgrading from a single-session version) a default workspace is created.
+ */
+export const initWorkspaces = async (defaults: Omit<WorkspaceMeta, 'id' | 'name' | 'createdAt' | 'updatedAt'>): Promise<{ workspaces: WorkspaceMeta[]; activeId: string }> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['workspaces', 'meta'], 'readonly');
+  let [workspaces, activeId] = await Promise.all([
+    requestToPromise(tx.objectStore('workspaces').getAll() as IDBRequest<WorkspaceMeta[]>),
+    requestToPromise(tx.objectStore('meta').get(META_KEYS.ACTIVE_WORKSPACE) as IDBRequest<string | undefined>)
+  ]);
+
+  if (workspaces.length === 0) {
+    const now = Date.now();
+    const initial: WorkspaceMeta = { id: DEFAULT_WORKSPACE_ID, name: 'Main', createdAt: now, updatedAt: now, ...defaults };
+    await saveWorkspaceMeta(initial);
+    await migrateLegacyStorage();
+    workspaces = [initial];
+  }
+
+  workspaces.sort((a, b) => a.createdAt - b.createdAt);
+  if (!activeId || !workspaces.some(w => w.id === activeId)) activeId = workspaces[0].id;
+  return { workspaces, activeId };
+};
+
+export const loadWorkspace = async (workspaceId: string): Promise<PersistedWorkspace> => {
+  const db = await openDatabase();
+  const [messages, files, revisions] = await Promise.all([
+    readCollection<Message>(db, 'workspace_messages', workspaceId, META_KEYS.MESSAGE_ORDER),
+    readCollection<FileContext>(db, 'workspace_files', workspaceId, META_KEYS.FILE_ORDER),
+    requestToPromise(db.transaction('meta', 'readonly').objectStore('meta').get(workspaceKey(workspaceId, META_KEYS.REVISIONS)) as IDBRequest<WorkspaceHistory | undefined>)
+  ]);
+
+  messageWriter.prime(workspaceId, messages);
+  fileWriter.prime(workspaceId, files);
+  return { messages, files, revisions: revisions || null };
+};
+
+export const saveMessages = (workspaceId: string, messages: Message[]) => messageWriter.write(workspaceId, messages);
+
+export const saveFiles = (workspaceId: string, files: FileContext[]) => fileWriter.write(workspaceId, files);
+
+export const saveRevisions = async (workspaceId: string, history: WorkspaceHistory) => {
+  const db = await openDatabase();
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(history, workspaceKey(workspaceId, META_KEYS.REVISIONS));
+  await transactionDone(tx);
+};
+
+/**
+ * Removes a workspace's messages, files and revisions. The workspace entry
+ * itself is kept unless `removeMeta` is set.
+ */
+export const clearWorkspace = async (workspaceId: string, removeMeta = false) => {
+  // Reset first so writes issued right after the clear start from empty
+  messageWriter.prime(workspaceId, []);
+  fileWriter.prime(workspaceId, []);
+
+  const db = await openDatabase();
+  const tx = db.transaction(['workspace_messages', 'workspace_files', 'meta', 'workspaces'], 'readwrite');
+  tx.objectStore('workspace_messages').delete(workspaceRange(workspaceId));
+  tx.objectStore('workspace_files').delete(workspaceRange(workspaceId));
+  Object.values(META_KEYS)
+    .filter(key => key !== META_KEYS.ACTIVE_WORKSPACE)
+    .forEach(key => tx.objectStore('meta').delete(workspaceKey(workspaceId, key)));
+  if (removeMeta) tx.objectStore('workspaces').delete(workspaceId);
+  await transactionDone(tx);
+
+  if (removeMeta) {
+    messageWriter.forget(workspaceId);
+    fileWriter.forget(workspaceId);
+  }
+};
+
+export const deleteWorkspace = (workspaceId: string) => clearWorkspace(workspaceId, true);
+
+/**
+ * Stores a complete workspace (e.g. from an imported bundle) under a new entry.
+ */
+export const createWorkspace = async (meta: WorkspaceMeta, content: PersistedWorkspace) => {
+  await saveWorkspaceMeta(meta);
+  await Promise.all([
+    messageWriter.write(meta.id, content.messages),
+    fileWriter.write(meta.id, content.files),
+    content.revisions ? saveRevisions(meta.id, content.revisions) : Promise.resolve()
+  ]);
+};
+
+/**
+ * Copies everything stored for `sourceId` into a new workspace described by `meta`.
+ */
+export const duplicateWorkspace = async (sourceId: string, meta: WorkspaceMeta) => {
+  await createWorkspace(meta, await loadWorkspace(sourceId));
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const isQuotaExceeded = (error: unknown): boolean => {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
@@ -0,0 +1,203 @@
+import type { SandboxTestResult } from './verificationService';
+
+/**
+ * Runs CommonJS-transpiled test files with a small Jest-style harness. Only
+ * workspace modules and the test framework imports (served by the harness)
+ * can be required, and transpiling to CommonJS routes
+ * `import()` through that same `require`. Before any test code runs, the
+ * worker removes its network, storage and messaging APIs, plus every way to
+ * compile a string into code, which could otherwise reach `import()` directly.
+ */
+
+interface SandboxRequest {
+  modules: Record<string, string>; // Workspace path -> CommonJS code
+  testFiles: string[];
+}
+
+const ctx = self as any;
+
+// Captured before the lockdown; test code only ever sees the blocked versions
+const compile = Function;
+const postResults = ctx.postMessage.bind(ctx);
+
+const blocked = (name: string) => function () { throw new Error(`${name} is disabled in the test sandbox`); };
+
+/**
+ * Pins `target[name]` to `value` after deleting the property from every
+ * prototype, so test code cannot delete the override to recover the original.
+ */
+const lock = (target: any, name: string, value: unknown = blocked(name)) => {
+  for (let proto = Object.getPrototypeOf(target); proto; proto = Object.getPrototypeOf(proto)) {
+    if (Object.prototype.hasOwnProperty.call(proto, name)) delete proto[name];
+  }
+  Object.defineProperty(target, name, { value, writable: false, configurable: false });
+};
+
+[
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts',
+  'Worker', 'SharedWorker', 'BroadcastChannel', 'indexedDB', 'caches', 'postMessage', 'eval', 'Function'
+].forEach(name => lock(ctx, name));
+if (ctx.navigator) lock(ctx.navigator, 'storage');
+
+// `(async () => {}).constructor` and friends compile strings as well
+[function () {}, async function () {}, function* () {}, async function* () {}].forEach(fn =>
+  Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: blocked('Function'), writable: false, configurable: false }));
+
+// Timers evaluate string handlers as code
+['setTimeout', 'setInterval'].forEach(name => {
+  const original = ctx[name].bind(ctx);
+  lock(ctx, name, (handler: unknown, ...rest: unknown[]) => {
+    if (typeof handler !== 'function') throw new Error(`${name} with a string is disabled in the test sandbox`);
+    return original(handler, ...rest);
+  });
+});
+
+// Test framework imports resolve to the harness below instead of the real package
+const HARNESS_MODULES = new Set(['vitest', '@jest/globals', 'node:test']);
+
+const EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'];
+
+const resolvePath = (from: string, specifier: string) => {
+  const parts = from.split('/').slice(0, -1);
+  specifier.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const format = (value: unknown) => {
+  try {
+    return typeof value === 'string' ? JSON.stringify(value) : JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const isEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => isEqual(a[k], b[k]));
+};
+
+const expect = (actual: any) => {
+  const build = (negate: boolean) => {
+    const check = (pass: boolean, message: string) => {
+      if (pass === negate) throw new Error(negate ? `Expected not: ${message}` : message);
+    };
+    return {
+      toBe: (expected: any) => check(Object.is(actual, expected), `expected ${format(actual)} to be ${format(expected)}`),
+      toEqual: (expected: any) => check(isEqual(actual, expected), `expected ${format(actual)} to equal ${format(expected)}`),
+      toStrictEqual: (expected: any) => check(isEqual(actual, expected), `expected ${format(actual)} to equal ${format(expected)}`),
+      toBeTruthy: () => check(!!actual, `expected ${format(actual)} to be truthy`),
+      toBeFalsy: () => check(!actual, `expected ${format(actual)} to be falsy`),
+      toBeNull: () => check(actual === null, `expected ${format(actual)} to be null`),
+      toBeUndefined: () => check(actual === undefined, `expected ${format(actual)} to be undefined`),
+      toBeDefined: () => check(actual !== undefined, 'expected value to be defined'),
+      toContain: (item: any) => check(actual?.includes?.(item), `expected ${format(actual)} to contain ${format(item)}`),
+      toHaveLength: (length: number) => check(actual?.length === length, `expected length ${actual?.length} to be ${length}`),
+      toBeGreaterThan: (n: number) => check(actual > n, `expected ${actual} to be greater than ${n}`),
+      toBeLessThan: (n: number) => check(actual < n, `expected ${actual} to be less than ${n}`),
+      toThrow: (expected?: string | RegExp) => {
+        let thrown: any = null;
+        try { actual(); } catch (e) { thrown = e; }
+        const message = thrown instanceof Error ? thrown.message : String(thrown);
+        const matches = thrown !== null && (expected === undefined
+          || (typeof expected === 'string' ? message.includes(expected) : expected.test(message)));
+        check(matches, `expected function to throw${expected ? ` ${expected}` : ''}${thrown ? `, got "${message}"` : ''}`);
+      }
+    };
+  };
+  return { ...build(false), not: build(true) };
+};
+
+ctx.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const { modules, testFiles } = event.data;
+  const cache = new Map<string, any>();
+  let harness: Record<string, unknown> = {};
+
+  const load = (path: string): any => {
+    if (cache.has(path)) return cache.get(path).exports;
+    const module = { exports: {} as any };
+    cache.set(path, module);
+    const require = (specifier: string) => {
+      if (HARNESS_MODULES.has(specifier)) return harness;
+      if (!specifier.startsWith('.')) throw new Error(`Package '${specifier}' is not available in the test sandbox`);
+      const base = resolvePath(path, specifier);
+      const target = EXTENSIONS.map(ext => base + ext).find(candidate => candidate in modules);
+      if (!target) throw new Error(`Cannot find module '${specifier}' from ${path}`);
+      return load(target);
+    };
+    compile('exports', 'require', 'module', modules[path])(module.exports, require, module);
+    return module.exports;
+  };
+
+  const results: SandboxTestResult[] = [];
+
+  for (const file of testFiles) {
+    const tests: { name: string; fn: () => any }[] = [];
+    const beforeAll: (() => any)[] = [];
+    const afterAll: (() => any)[] = [];
+    const beforeEach: (() => any)[] = [];
+    const afterEach: (() => any)[] = [];
+    const prefix: string[] = [];
+
+    const register = (name: string, fn: () => any) => tests.push({ name: [...prefix, name].join(' > '), fn });
+    const addBeforeAll = (fn: () => any) => beforeAll.push(fn);
+    const addAfterAll = (fn: () => any) => afterAll.push(fn);
+    // Globals for Jest-style tests; the same functions are what `import { it } from 'vitest'` gets
+    harness = {
+      describe: (name: string, fn: () => void) => { prefix.push(name); fn(); prefix.pop(); },
+      it: register,
+      test: register,
+      expect,
+      beforeAll: addBeforeAll,
+      afterAll: addAfterAll,
+      before: addBeforeAll, // node:test names
+      after: addAfterAll,
+      beforeEach: (fn: () => any) => beforeEach.push(fn),
+      afterEach: (fn: () => any) => afterEach.push(fn)
+    };
+    Object.assign(ctx, harness);
+
+    try {
+      load(file);
+    } catch (e) {
+      results.push({ file, name: '(module load)', passed: false, error: e instanceof Error ? e.message : String(e), durationMs: 0 });
+      continue;
+    }
+
+    let setupError: string | undefined;
+    try {
+      for (const hook of beforeAll) await hook();
+    } catch (e) {
+      setupError = `beforeAll failed: ${e instanceof Error ? e.message : String(e)}`;
+    }
+
+    for (const test of tests) {
+      if (setupError) {
+        results.push({ file, name: test.name, passed: false, error: setupError, durationMs: 0 });
+        continue;
+      }
+      const started = performance.now();
+      try {
+        for (const hook of beforeEach) await hook();
+        await test.fn();
+        for (const hook of afterEach) await hook();
+        results.push({ file, name: test.name, passed: true, durationMs: performance.now() - started });
+      } catch (e) {
+        results.push({ file, name: test.name, passed: false, error: e instanceof Error ? e.message : String(e), durationMs: performance.now() - started });
+      }
+    }
+
+    try {
+      for (const hook of afterAll) await hook();
+    } catch (e) {
+      results.push({ file, name: '(afterAll)', passed: false, error: e instanceof Error ? e.message : String(e), durationMs: 0 });
+    }
+  }
+
+  postResults(results);
+};
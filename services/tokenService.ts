@@ -0,0 +1,66 @@
+import { AgentMode, FileContext } from '../types';
+import { getModelForMode } from './modelService';
+
+export interface TokenEstimate {
+  promptTokens: number; // Largest single request sent to the model
+  totalTokens: number; // Sum over every request the mode makes
+  contextWindow: number;
+  exceedsWindow: boolean;
+}
+
+// Gemini bills a fixed amount per image regardless of resolution (for typical sizes)
+const IMAGE_TOKENS = 258;
+
+// System instruction plus the START/END wrappers around each file
+const SYSTEM_PROMPT_TOKENS = 600;
+const FILE_WRAPPER_TOKENS = 20;
+// The `12| ` prefix numbered onto each line of code files
+const LINE_NUMBER_TOKENS = 2;
+
+// Fraction of the window at which the meter starts warning
+export const WINDOW_WARNING_RATIO = 0.8;
+
+/**
+ * Cheap client-side estimate (~4 characters per token). Close enough for
+ * budgeting without a round trip to the countTokens endpoint.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimateFileTokens = (file: FileContext): number => {
+  if (file.type === 'image') return IMAGE_TOKENS;
+  const lineNumberTokens = file.type === 'file' ? file.content.split('\n').length * LINE_NUMBER_TOKENS : 0;
+  return estimateTokens(file.content) + lineNumberTokens + FILE_WRAPPER_TOKENS;
+};
+
+export const getContextWindow = (mode: AgentMode): number => getModelForMode(mode).contextWindow;
+
+/**
+ * Estimates what a request in `mode` will cost. Each DEBUG attempt resends the
+ * context to the draft or repair stage and again to the verify stage, so the
+ * total is at worst about twice the single prompt per allowed attempt.
+ */
+export const estimateRequestTokens = (
+  mode: AgentMode,
+  files: FileContext[],
+  historyTokens: number,
+  prompt: string,
+  debugAttempts = 1
+): TokenEstimate => {
+  const fileTokens = files.reduce((sum, f) => sum + estimateFileTokens(f), 0);
+  const promptTokens = SYSTEM_PROMPT_TOKENS + fileTokens + historyTokens + estimateTokens(prompt);
+  const contextWindow = getContextWindow(mode);
+  const stages = mode === AgentMode.DEBUG ? 2 * debugAttempts : 1;
+
+  return {
+    promptTokens,
+    totalTokens: promptTokens * stages,
+    contextWindow,
+    exceedsWindow: promptTokens > contextWindow
+  };
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${tokens}`;
+};
@@ -0,0 +1,146 @@
+import { FileContext } from '../types';
+import { createIgnoreMatcher, parsePatterns } from './globService';
+
+// Project-level ignore file, read from the uploaded folder like .gitignore
+export const PROJECT_IGNORE_FILE = '.codeagentignore';
+
+// Applied before any ignore file, so a `!pattern` there can still re-include
+export const DEFAULT_UPLOAD_IGNORES = ['.git/', 'node_modules/', 'dist/', 'build/', 'coverage/', '.next/', '__pycache__/', '.venv/', '.DS_Store'];
+
+export const DEFAULT_MAX_UPLOAD_SIZE = 256 * 1024;
+// Images are sent inline, so they get a separate, larger cap
+const MAX_IMAGE_SIZE = 4 * 1024 * 1024;
+
+export type SkipReason = 'ignored' | 'binary' | 'too-large' | 'unreadable';
+
+export interface SkippedUpload {
+  path: string;
+  size: number;
+  reason: SkipReason;
+  detail?: string; // Ignore file that matched, or the read error
+}
+
+export interface UploadPlan {
+  files: FileContext[];
+  skipped: SkippedUpload[];
+  ignoreFiles: string[]; // Ignore files that were applied
+}
+
+const uploadPath = (file: File) => file.webkitRelativePath || file.name;
+
+const dirOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+/**
+ * Null bytes, or a high share of control characters in the first 8KB, mark a
+ * file as binary. UTF-8 multibyte sequences are all >= 0x80, so they pass.
+ */
+const looksBinary = (bytes: Uint8Array) => {
+  const sample = bytes.subarray(0, 8000);
+  if (sample.includes(0)) return true;
+  let control = 0;
+  sample.forEach(byte => {
+    if (byte < 9 || (byte > 13 && byte < 32) || byte === 127) control++;
+  });
+  return sample.length > 0 && control / sample.length > 0.1;
+};
+
+const classify = (path: string, isImage: boolean): FileContext['type'] => {
+  const lowerName = path.toLowerCase();
+  if (isImage) return 'image';
+  if (lowerName.endsWith('.log')) return 'log';
+  if (lowerName.endsWith('.json') || lowerName.endsWith('.csv')) return 'metric';
+  if (lowerName.includes('issue') || lowerName.includes('report')) return 'issue';
+  return 'file';
+};
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Builds the ignore check for an upload. Every .gitignore applies to its own
+ * directory and below, deeper files take precedence over shallower ones, and
+ * the project ignore file overrides them all.
+ */
+const buildIgnoreCheck = async (uploads: File[]) => {
+  const ignoreUploads = uploads
+    .filter(f => f.name === '.gitignore' || f.name === PROJECT_IGNORE_FILE)
+    .sort((a, b) => {
+      const projectFirst = Number(b.name === PROJECT_IGNORE_FILE) - Number(a.name === PROJECT_IGNORE_FILE);
+      return projectFirst || uploadPath(b).split('/').length - uploadPath(a).split('/').length;
+    });
+
+  // An ignore file that cannot be read is reported like any other unreadable upload
+  const unreadable: SkippedUpload[] = [];
+  const matchers = (await Promise.all(ignoreUploads.map(async file => {
+    try {
+      return { source: uploadPath(file), matches: createIgnoreMatcher(parsePatterns(await file.text()), dirOf(uploadPath(file))) };
+    } catch (e) {
+      unreadable.push({ path: uploadPath(file), size: file.size, reason: 'unreadable', detail: e instanceof Error ? e.message : undefined });
+      return null;
+    }
+  }))).filter(matcher => matcher !== null);
+
+  // The selected folder's own name is the first segment of every relative path
+  const root = uploads.length > 0 && uploads[0].webkitRelativePath ? uploads[0].webkitRelativePath.split('/')[0] : '';
+  const defaults = createIgnoreMatcher(DEFAULT_UPLOAD_IGNORES, root);
+
+  const check = (path: string): string | null => {
+    for (const matcher of matchers) {
+      const ignored = matcher.matches(path);
+      if (ignored !== undefined) return ignored ? matcher.source : null;
+    }
+    return defaults(path) ? 'default ignores' : null;
+  };
+
+  return { check, sources: matchers.map(m => m.source), unreadable };
+};
+
+/**
+ * Reads an upload (single files or a whole directory) into workspace files,
+ * leaving out ignored, binary and oversized files. Nothing is added to the
+ * workspace here; the caller shows `skipped` first.
+ */
+export const prepareUpload = async (uploads: File[], maxFileSize = DEFAULT_MAX_UPLOAD_SIZE): Promise<UploadPlan> => {
+  const { check, sources, unreadable } = await buildIgnoreCheck(uploads);
+  const files: FileContext[] = [];
+  const skipped: SkippedUpload[] = [...unreadable];
+  const alreadySkipped = new Set(unreadable.map(s => s.path));
+
+  for (const file of uploads) {
+    const path = uploadPath(file);
+    const isImage = file.type.startsWith('image/');
+    if (alreadySkipped.has(path)) continue;
+
+    const ignoredBy = check(path);
+    if (ignoredBy) {
+      skipped.push({ path, size: file.size, reason: 'ignored', detail: ignoredBy });
+      continue;
+    }
+    if (file.size > (isImage ? MAX_IMAGE_SIZE : maxFileSize)) {
+      skipped.push({ path, size: file.size, reason: 'too-large' });
+      continue;
+    }
+
+    try {
+      if (!isImage && looksBinary(new Uint8Array(await file.slice(0, 8000).arrayBuffer()))) {
+        skipped.push({ path, size: file.size, reason: 'binary', detail: file.type || undefined });
+        continue;
+      }
+      files.push({
+        id: Math.random().toString(36).substring(7),
+        name: path,
+        content: isImage ? await readAsBase64(file) : await file.text(),
+        type: classify(path, isImage),
+        mimeType: file.type
+      });
+    } catch (e) {
+      skipped.push({ path, size: file.size, reason: 'unreadable', detail: e instanceof Error ? e.message : undefined });
+    }
+  }
+
+  return { files, skipped, ignoreFiles: sources };
+};
@@ -0,0 +1,321 @@
+/// <reference types="vite/client" />
+import * as ts from 'typescript';
+import { FileContext } from '../types';
+import { buildFilePatches, applyHunks } from './patchService';
+import { generateDependencyGraph } from './dependencyService';
+
+export interface VerificationDiagnostic {
+  path: string;
+  line: number;
+  code: number;
+  message: string;
+}
+
+export interface SandboxTestResult {
+  file: string;
+  name: string;
+  passed: boolean;
+  error?: string;
+  durationMs: number;
+  preexisting?: boolean; // Also failed without the patch, so it does not count against it
+}
+
+export interface VerificationResult {
+  patchedFiles: string[];
+  conflicts: { path: string; reason: string }[]; // Edits that could not be placed in the workspace
+  diagnostics: VerificationDiagnostic[]; // Only those the patch introduced
+  tests?: SandboxTestResult[]; // Absent when tests were not requested or none apply
+  passed: boolean;
+  skipped?: string; // Why nothing could be checked
+}
+
+const LIB_DIR = '/lib';
+const LIB_ROOTS = ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'];
+const CHECKED_FILE = /\.(ts|tsx|js|jsx|mts|cts|mjs|cjs)$/;
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/;
+const TEST_TIMEOUT_MS = 10000;
+
+// Codes that only say an npm package or its types are not in the workspace
+const ENVIRONMENT_CODES = new Set([7016, 2875, 2792]);
+const MISSING_MODULE = 2307;
+
+const libLoaders = import.meta.glob<string>('../node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default' });
+let libFiles: Promise<Map<string, ts.SourceFile>> | null = null;
+
+/**
+ * Loads the standard library declarations on first use, following
+ * `/// <reference lib>` from the roots. Parsed once and shared by all runs.
+ */
+const loadLibFiles = () => libFiles ??= (async () => {
+  const loaded = new Map<string, ts.SourceFile>();
+  const queue = [...LIB_ROOTS];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    const loader = libLoaders[`../node_modules/typescript/lib/${name}`];
+    if (loaded.has(name) || !loader) continue;
+    const source = ts.createSourceFile(`${LIB_DIR}/${name}`, await loader(), ts.ScriptTarget.ES2022);
+    loaded.set(name, source);
+    source.libReferenceDirectives.forEach(ref => queue.push(`lib.${ref.fileName.toLowerCase()}.d.ts`));
+  }
+  return loaded;
+})();
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: LIB_ROOTS,
+  types: [],
+  allowJs: true,
+  noEmit: true,
+  skipLibCheck: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true
+};
+
+/**
+ * Builds a program over the workspace as it would be on disk. Source files
+ * are cached by path and reused while their text is unchanged, so the
+ * baseline and patched programs only parse what differs.
+ */
+const createProgram = (files: FileContext[], roots: string[], libs: Map<string, ts.SourceFile>, cache: Map<string, ts.SourceFile>) => {
+  const sources = new Map(files.filter(f => f.type !== 'image').map(f => ['/' + f.name, f.content]));
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName.startsWith(LIB_DIR + '/')) return libs.get(fileName.slice(LIB_DIR.length + 1));
+      const content = sources.get(fileName);
+      if (content === undefined) return undefined;
+      const cached = cache.get(fileName);
+      if (cached && cached.text === content) return cached;
+      const source = ts.createSourceFile(fileName, content, languageVersion, true);
+      cache.set(fileName, source);
+      return source;
+    },
+    getDefaultLibFileName: () => `${LIB_DIR}/${LIB_ROOTS[0]}`,
+    getDefaultLibLocation: () => LIB_DIR,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => sources.has(fileName) || libs.has(fileName.slice(LIB_DIR.length + 1)),
+    readFile: fileName => sources.get(fileName)
+  };
+
+  return ts.createProgram(roots.filter(path => sources.has('/' + path)).map(path => '/' + path), COMPILER_OPTIONS, host);
+};
+
+const isEnvironmentNoise = (diagnostic: ts.Diagnostic, message: string) => {
+  if (ENVIRONMENT_CODES.has(diagnostic.code)) return true;
+  // Relative imports that do not resolve are real errors; packages are just not uploaded
+  return diagnostic.code === MISSING_MODULE && !/'\.{1,2}\//.test(message);
+};
+
+const collectDiagnostics = (program: ts.Program, paths: string[]): VerificationDiagnostic[] =>
+  paths.flatMap(path => {
+    const source = program.getSourceFile('/' + path);
+    if (!source) return [];
+    return [...program.getSyntacticDiagnostics(source), ...program.getSemanticDiagnostics(source)]
+      .map(diagnostic => ({ diagnostic, message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n') }))
+      .filter(({ diagnostic, message }) => !isEnvironmentNoise(diagnostic, message))
+      .map(({ diagnostic, message }) => ({
+        path,
+        line: diagnostic.start !== undefined ? source.getLineAndCharacterOfPosition(diagnostic.start).line + 1 : 1,
+        code: diagnostic.code,
+        message
+      }));
+  });
+
+/**
+ * Keeps the diagnostics that the baseline does not already have. Lines shift
+ * when code is edited, so entries are matched by file, code and message.
+ */
+const newDiagnostics = (before: VerificationDiagnostic[], after: VerificationDiagnostic[]) => {
+  const key = (d: VerificationDiagnostic) => `${d.path}\0${d.code}\0${d.message}`;
+  const remaining = new Map<string, number>();
+  before.forEach(d => remaining.set(key(d), (remaining.get(key(d)) || 0) + 1));
+  return after.filter(d => {
+    const count = remaining.get(key(d)) || 0;
+    if (count === 0) return true;
+    remaining.set(key(d), count - 1);
+    return false;
+  });
+};
+
+/**
+ * Applies the answer's SEARCH/REPLACE and diff blocks to a copy of the
+ * workspace. New files get a placeholder id; nothing is saved.
+ */
+const applyAnswer = (text: string, files: FileContext[]) => {
+  const patches = buildFilePatches(text, files);
+  const patched = [...files];
+
+  patches.forEach(patch => {
+    const index = patched.findIndex(f => f.id === patch.fileId);
+    if (index === -1) {
+      patched.push({ id: `verify-${patch.path}`, name: patch.path, content: applyHunks('', patch.hunks), type: 'file' });
+    } else {
+      patched[index] = { ...patched[index], content: applyHunks(patched[index].content, patch.hunks) };
+    }
+  });
+
+  return {
+    patched,
+    changed: patches.map(p => p.path),
+    conflicts: patches.flatMap(p => p.hunks.filter(h => h.conflict).map(h => ({ path: p.path, reason: h.conflictReason || 'The edit could not be placed' })))
+  };
+};
+
+const runInSandbox = (modules: Record<string, string>, testFiles: string[], signal?: AbortSignal) =>
+  new Promise<SandboxTestResult[]>(resolve => {
+    const worker = new Worker(new URL('./testSandbox.worker.ts', import.meta.url), { type: 'module' });
+    const finish = (results: SandboxTestResult[]) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(results);
+    };
+    const failAll = (error: string) => finish(testFiles.map(file => ({ file, name: '(sandbox)', passed: false, error, durationMs: 0 })));
+    const onAbort = () => failAll('Cancelled');
+
+    const timer = setTimeout(() => failAll(`Timed out after ${TEST_TIMEOUT_MS / 1000}s`), TEST_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort);
+    worker.onmessage = (event: MessageEvent<SandboxTestResult[]>) => finish(event.data);
+    worker.onerror = (event) => failAll(event.message || 'Sandbox crashed');
+    worker.postMessage({ modules, testFiles });
+  });
+
+/**
+ * Runs `testFiles` against a workspace. Each test and everything it imports
+ * from the workspace is transpiled to CommonJS here and evaluated in the worker.
+ */
+const runTestsIn = (workspace: FileContext[], testFiles: string[], signal?: AbortSignal) => {
+  const { links } = generateDependencyGraph(workspace);
+  const importsOf = (path: string) => links.filter(l => l.source === path).map(l => l.target);
+
+  const modules: Record<string, string> = {};
+  const queue = [...testFiles];
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const file = workspace.find(f => f.name === path);
+    if (path in modules || !file || !CHECKED_FILE.test(path)) continue;
+    modules[path] = ts.transpileModule(file.content, {
+      fileName: path,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, jsx: ts.JsxEmit.ReactJSX, esModuleInterop: true }
+    }).outputText;
+    queue.push(...importsOf(path));
+  }
+
+  return runInSandbox(modules, testFiles.filter(path => path in modules), signal);
+};
+
+/**
+ * Runs the test files that were changed or that import a changed file, on the
+ * patched workspace and on the original. Failures the original already had
+ * are marked `preexisting`, like the baseline diagnostics of the type check.
+ */
+const runAffectedTests = async (files: FileContext[], patched: FileContext[], changed: string[], signal?: AbortSignal) => {
+  const { links } = generateDependencyGraph(patched);
+  const importsOf = (path: string) => links.filter(l => l.source === path).map(l => l.target);
+
+  const testFiles = patched
+    .map(f => f.name)
+    .filter(name => TEST_FILE.test(name) && (changed.includes(name) || importsOf(name).some(target => changed.includes(target))));
+  if (testFiles.length === 0) return undefined;
+
+  const baselineFiles = testFiles.filter(path => files.some(f => f.name === path));
+  const [after, before] = await Promise.all([
+    runTestsIn(patched, testFiles, signal),
+    baselineFiles.length > 0 ? runTestsIn(files, baselineFiles, signal) : Promise.resolve([])
+  ]);
+
+  const key = (t: SandboxTestResult) => `${t.file}\0${t.name}`;
+  const failedBefore = new Set(before.filter(t => !t.passed).map(key));
+  return after.map(t => !t.passed && failedBefore.has(key(t)) ? { ...t, preexisting: true } : t);
+};
+
+/**
+ * Checks a model answer against the workspace for real: applies its patches,
+ * type-checks the changed files and their direct importers, and optionally
+ * runs the affected tests in a sandboxed worker.
+ */
+export const verifyPatches = async (
+  answer: string,
+  files: FileContext[],
+  options: { runTests?: boolean; signal?: AbortSignal } = {}
+): Promise<VerificationResult> => {
+  const { patched, changed, conflicts } = applyAnswer(answer, files);
+  if (changed.length === 0) {
+    return { patchedFiles: [], conflicts: [], diagnostics: [], passed: false, skipped: 'The answer contains no file edits' };
+  }
+
+  const { links } = generateDependencyGraph(patched);
+  const checked = Array.from(new Set([
+    ...changed,
+    ...links.filter(l => changed.includes(l.target)).map(l => l.source)
+  ])).filter(path => CHECKED_FILE.test(path));
+
+  let diagnostics: VerificationDiagnostic[] = [];
+  if (checked.length > 0) {
+    const libs = await loadLibFiles();
+    const cache = new Map<string, ts.SourceFile>();
+    const before = collectDiagnostics(createProgram(files, checked, libs, cache), checked);
+    const after = collectDiagnostics(createProgram(patched, checked, libs, cache), checked);
+    diagnostics = newDiagnostics(before, after);
+  }
+
+  const tests = options.runTests ? await runAffectedTests(files, patched, changed, options.signal) : undefined;
+
+  if (checked.length === 0 && !tests) {
+    return {
+      patchedFiles: changed,
+      conflicts,
+      diagnostics,
+      passed: false,
+      skipped: 'No TypeScript or JavaScript files were changed, so there is nothing to type-check or test'
+    };
+  }
+
+  return {
+    patchedFiles: changed,
+    conflicts,
+    diagnostics,
+    tests,
+    passed: conflicts.length === 0 && diagnostics.length === 0 && (tests || []).every(t => t.passed || t.preexisting)
+  };
+};
+
+// Edits that could not be checked are reported as such rather than as a pass
+export const verificationVerdict = (result: VerificationResult): 'Pass' | 'Fail' | 'Unverified' =>
+  result.passed ? 'Pass' : result.skipped && result.conflicts.length === 0 ? 'Unverified' : 'Fail';
+
+/**
+ * Markdown summary of a verification run. Diagnostics are written as
+ * `path:line` citations so they link into the editor, and the same text is
+ * fed back to the model when a repair is needed.
+ */
+export const formatVerificationReport = (result: VerificationResult): string => {
+  const lines: string[] = [];
+
+  if (result.skipped) lines.push(`_Not verified: ${result.skipped}._`);
+
+  result.conflicts.forEach(c => lines.push(`- \`${c.path}\`: ${c.reason}`));
+
+  if (!result.skipped || result.diagnostics.length > 0) {
+    lines.push(`**Type check:** ${result.diagnostics.length === 0 ? 'no new errors' : `${result.diagnostics.length} new error(s)`}`);
+    result.diagnostics.forEach(d => lines.push(`- \`${d.path}:${d.line}\` TS${d.code}: ${d.message}`));
+  }
+
+  if (result.tests) {
+    const failed = result.tests.filter(t => !t.passed && !t.preexisting);
+    const preexisting = result.tests.filter(t => t.preexisting).length;
+    const passedCount = result.tests.filter(t => t.passed).length;
+    lines.push(`**Tests:** ${passedCount}/${result.tests.length} passed${preexisting > 0 ? ` (${preexisting} already failing before the change)` : ''}`);
+    failed.forEach(t => lines.push(`- \`${t.file}\` ${t.name}: ${t.error || 'failed'}`));
+  }
+
+  return lines.join('\n');
+};
@@ -1,12 +1,22 @@
 export enum AgentMode {
-  FAST = 'FAST', // gemini-3-flash
-  ARCHITECT = 'ARCHITECT', // gemini-3-pro with thinking
-  DEBUG = 'DEBUG' // gemini-3-pro with iterative verification
+  FAST = 'FAST', // Non-thinking flash model by default
+  ARCHITECT = 'ARCHITECT', // Thinking model
+  DEBUG = 'DEBUG' // Thinking model with iterative verification
+  // Models per mode are configured in services/modelService.ts
 }
 
 export enum ViewMode {
   CHAT = 'CHAT',
-  GRAPH = 'GRAPH'
+  GRAPH = 'GRAPH',
+  EDITOR = 'EDITOR'
+}
+
+export interface RepoRef {
+  owner: string;
+  repo: string;
+  ref: string; // Branch, tag or sha as requested
+  commitSha: string; // Commit the content was read from
+  blobSha?: string; // Git blob sha of the file as imported; a different hash means it was edited
 }
 
 export interface FileContext {
@@ -15,6 +25,7 @@ export interface FileContext {
   content: string; // Text content or base64 for images
   type: 'file' | 'image' | 'log' | 'metric' | 'issue';
   mimeType?: string;
+  repoRef?: RepoRef; // Set for files imported from GitHub
 }
 
 export interface Message {
@@ -24,7 +35,139 @@ export interface Message {
   timestamp: number;
   isThinking?: boolean; // For UI state
   thoughts?: string; // Captured reasoning trace
+  isCancelled?: boolean; // Stopped by the user before completion
   attachments?: FileContext[]; // Attachments specific to this message
+  contextFileNames?: string[]; // Workspace files sent along with the request
+  mode?: AgentMode; // Agent mode that produced a model message
+  review?: PullRequestReview; // Structured findings of a pull request review
+  debugRun?: DebugIteration[]; // Draft and repair attempts of a DEBUG run, in order
+  error?: MessageError; // The request failed; rendered as an error bubble
+  retry?: RetryTarget; // How to run the failed request again
+  appliedPatches?: FilePatch[]; // Hunks the user applied from this answer; its diff view stays frozen on them
+}
+
+export type ErrorKind = 'quota' | 'auth' | 'network' | 'safety' | 'invalid-input' | 'cancelled' | 'unknown';
+
+export interface MessageError {
+  kind: ErrorKind;
+  message: string;
+  retryable: boolean; // Trying again unchanged may succeed (quota, network)
+}
+
+// The action behind a failed message, replayed against the current workspace on retry
+export type RetryTarget = (
+  | { kind: 'send'; prompt: string; mode: AgentMode }
+  | { kind: 'auto-analysis'; source: 'upload' | 'github'; fileCount: number }
+  | { kind: 'code-review'; code: string; language: string }
+  | { kind: 'github-import'; url: string }
+  | { kind: 'pr-review'; url: string }
+  | { kind: 'post-review'; messageId: string; findingIds: string[] }
+) & { requestMessageId?: string }; // User message the replay adds again, so the retry removes it
+
+export type ReviewSeverity = 'critical' | 'major' | 'minor' | 'nit';
+
+export interface VerdictIssue {
+  severity: ReviewSeverity;
+  description: string;
+  path?: string;
+  line?: number;
+}
+
+// Structured judgement of one DEBUG attempt by the verify stage
+export interface DebugVerdict {
+  status: 'pass' | 'fail';
+  confidence: number; // 0-1
+  summary: string;
+  issues: VerdictIssue[];
+}
+
+export interface DebugIteration {
+  index: number;
+  stage: 'draft' | 'repair';
+  model: string;
+  status: 'generating' | 'checking' | 'judging' | 'passed' | 'failed';
+  answer?: string;
+  thoughts?: string;
+  checks?: { verdict: 'Pass' | 'Fail' | 'Unverified'; report: string }; // Type check and tests
+  verdict?: DebugVerdict;
+  verdictError?: string; // The verify stage failed; the checks alone decided
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface ReviewFinding {
+  id: string;
+  path: string;
+  line: number; // Line in the pull request's head version of the file
+  severity: ReviewSeverity;
+  title: string;
+  body: string;
+  inDiff: boolean; // The line is part of the diff, so it can carry an inline comment
+}
+
+export interface PullRequestReview {
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  headSha: string;
+  summary: string;
+  findings: ReviewFinding[];
+  postedUrl?: string; // Review posted back to GitHub
+}
+
+export interface PatchHunk {
+  id: string;
+  oldStart: number; // 0-based line index in the current file
+  oldLines: string[];
+  newLines: string[];
+  conflict?: boolean; // The hunk cannot be placed in the file; see conflictReason
+  conflictReason?: string;
+}
+
+export interface FilePatch {
+  path: string;
+  fileId?: string; // Workspace file the patch resolved to
+  isNewFile: boolean;
+  hunks: PatchHunk[];
+}
+
+export interface FileChange {
+  fileId: string;
+  fileName: string;
+  type: FileContext['type'];
+  mimeType?: string;
+  repoRef?: RepoRef; // Kept so a file recreated by undo is still tied to its repository
+  before: string | null; // null when the file did not exist
+  after: string | null; // null when the file was removed
+}
+
+export interface RevisionEntry {
+  id: string;
+  timestamp: number;
+  label: string;
+  messageId?: string; // Chat message whose edits produced this revision
+  mode?: AgentMode; // Agent mode that produced the edits
+  changes: FileChange[];
+}
+
+export interface WorkspaceMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  agentMode: AgentMode;
+  thinkingBudget: number;
+}
+
+export interface ContextSelection {
+  includedIds: string[];
+  scores: Record<string, number>; // Relevance per ranked file id
+}
+
+export interface StreamChunk {
+  kind: 'thought' | 'answer';
+  text: string;
 }
 
 export interface AgentState {